@@ -17,12 +17,11 @@ function isFormInstance(value: unknown): value is Form<unknown> {
   return Form.isForm(value);
 }
 
-type AnyControlLike = { value: unknown; valid: boolean; dirty: boolean };
-
 function renderFormRows<T>(form: Form<T>, keyPrefix: string = ''): Array<React.ReactElement> {
-  const controls = (form as unknown as { controls: Record<string, AnyControlLike> }).controls;
-  return Object.entries(controls).flatMap(([key, field]: [string, AnyControlLike]) => {
-    const value = field.value;
+  const controls: Form<T>['controls'] = form.controls;
+  return (Object.keys(controls) as Array<keyof T & string>).flatMap((key) => {
+    const field = controls[key];
+    const value: unknown = field.value;
 
     if (Array.isArray(value) && value.some(isFormInstance)) {
       const headerRow = (
@@ -17,7 +17,7 @@ export const BasicFormPage: React.FC = () => {
     agreeToTerms: [false, []],
   });
 
-  const controls = (form as unknown as { controls: Record<string, any> })?.controls;
+  const controls = form?.controls;
 
   return (
     <div style={{ display: 'flex', gap: 24 }}>
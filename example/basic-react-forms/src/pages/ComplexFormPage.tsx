@@ -7,8 +7,8 @@ type Payment = { cardNumber: string; expiry: string; cvc: string };
 type ComplexForm = {
   fullName: string;
   email: string;
-  address: Address;
-  payment: Payment;
+  address: Form<Address>;
+  payment: Form<Payment>;
   saveCard: boolean;
 };
 
@@ -21,9 +21,9 @@ export const ComplexFormPage: React.FC = () => {
     saveCard: [false],
   });
 
-  const controls = (form as unknown as { controls: Record<string, any> })?.controls;
+  const controls = form?.controls;
 
-  const canSubmit = Boolean(form?.valid) && Boolean(!form?.readonly) && Boolean(form?.dirty);
+  const canSubmit = Boolean(form?.valid) && !form?.readonly && Boolean(form?.dirty) && !form?.submitting;
 
   return (
     <div style={{ display: 'flex', gap: 24 }}>
@@ -57,8 +57,8 @@ export const ComplexFormPage: React.FC = () => {
             Street
             <input
               data-testid="street"
-              value={String(controls?.address.value.controls.street.value ?? '')}
-              onChange={(e) => controls?.address && (controls.address.value.controls.street.value = e.currentTarget.value)}
+              value={String(form?.getValue('address.street') ?? '')}
+              onChange={(e) => form?.setValue('address.street', e.currentTarget.value)}
               style={{ display: 'block', width: '100%' }}
             />
           </label>
@@ -66,8 +66,8 @@ export const ComplexFormPage: React.FC = () => {
             City
             <input
               data-testid="city"
-              value={String(controls?.address.value.controls.city.value ?? '')}
-              onChange={(e) => controls?.address && (controls.address.value.controls.city.value = e.currentTarget.value)}
+              value={String(form?.getValue('address.city') ?? '')}
+              onChange={(e) => form?.setValue('address.city', e.currentTarget.value)}
               style={{ display: 'block', width: '100%' }}
             />
           </label>
@@ -75,8 +75,8 @@ export const ComplexFormPage: React.FC = () => {
             ZIP
             <input
               data-testid="zip"
-              value={String(controls?.address.value.controls.zip.value ?? '')}
-              onChange={(e) => controls?.address && (controls.address.value.controls.zip.value = e.currentTarget.value)}
+              value={String(form?.getValue('address.zip') ?? '')}
+              onChange={(e) => form?.setValue('address.zip', e.currentTarget.value)}
               style={{ display: 'block', width: '100%' }}
             />
           </label>
@@ -88,8 +88,8 @@ export const ComplexFormPage: React.FC = () => {
             Card Number
             <input
               data-testid="cardNumber"
-              value={String(controls?.payment.value.controls.cardNumber.value ?? '')}
-              onChange={(e) => controls?.payment && (controls.payment.value.controls.cardNumber.value = e.currentTarget.value)}
+              value={String(form?.getValue('payment.cardNumber') ?? '')}
+              onChange={(e) => form?.setValue('payment.cardNumber', e.currentTarget.value)}
               style={{ display: 'block', width: '100%' }}
             />
           </label>
@@ -97,8 +97,8 @@ export const ComplexFormPage: React.FC = () => {
             Expiry
             <input
               data-testid="expiry"
-              value={String(controls?.payment.value.controls.expiry.value ?? '')}
-              onChange={(e) => controls?.payment && (controls.payment.value.controls.expiry.value = e.currentTarget.value)}
+              value={String(form?.getValue('payment.expiry') ?? '')}
+              onChange={(e) => form?.setValue('payment.expiry', e.currentTarget.value)}
               style={{ display: 'block', width: '100%' }}
             />
           </label>
@@ -106,8 +106,8 @@ export const ComplexFormPage: React.FC = () => {
             CVC
             <input
               data-testid="cvc"
-              value={String(controls?.payment.value.controls.cvc.value ?? '')}
-              onChange={(e) => controls?.payment && (controls.payment.value.controls.cvc.value = e.currentTarget.value)}
+              value={String(form?.getValue('payment.cvc') ?? '')}
+              onChange={(e) => form?.setValue('payment.cvc', e.currentTarget.value)}
               style={{ display: 'block', width: '100%' }}
             />
           </label>
@@ -125,7 +125,7 @@ export const ComplexFormPage: React.FC = () => {
         <div style={{ display: 'flex', gap: 8, marginTop: 12 }}>
           <button data-testid="reset" onClick={() => form?.reset()}>Reset</button>
           <button data-testid="toggle-readonly" onClick={() => { if (form) form.readonly = !form.readonly; }}>Toggle Readonly</button>
-          <button data-testid="pay" disabled={!canSubmit} onClick={() => console.log('PAY', form?.build())}>Pay</button>
+          <button data-testid="pay" disabled={!canSubmit} onClick={() => form?.submit((value) => console.log('PAY', value))}>Pay</button>
         </div>
         <div style={{ color: form?.valid ? '#2e7d32' : '#e53935' }}>
           {form?.valid ? 'Valid' : 'Invalid'}
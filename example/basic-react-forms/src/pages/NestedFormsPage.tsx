@@ -3,7 +3,7 @@ import { useForm, formGroup, Form } from '@radioactive/forms';
 import ShowFormStateButton from '../components/ShowFormStateButton';
 
 type Player = { name: string; score: number };
-type Team = { name: string; captain: Player; roster: Array<Form<Player>> };
+type Team = { name: string; captain: Form<Player>; roster: Array<Form<Player>> };
 type League = { season: string; teams: Array<Form<Team>> };
 
 export const NestedFormsPage: React.FC = () => {
@@ -12,7 +12,7 @@ export const NestedFormsPage: React.FC = () => {
     teams: [
       formGroup<Team>({
         name: 'Alpha',
-        captain: { name: 'Alice', score: 10 },
+        captain: formGroup<Player>({ name: 'Alice', score: 10 }),
         roster: [
           formGroup<Player>({ name: 'Bob', score: 5 }),
           formGroup<Player>({ name: 'Cara', score: 7 }),
@@ -20,7 +20,7 @@ export const NestedFormsPage: React.FC = () => {
       }),
       formGroup<Team>({
         name: 'Beta',
-        captain: { name: 'Ben', score: 12 },
+        captain: formGroup<Player>({ name: 'Ben', score: 12 }),
         roster: [
           formGroup<Player>({ name: 'Dee', score: 6 }),
         ],
@@ -28,28 +28,18 @@ export const NestedFormsPage: React.FC = () => {
     ],
   });
 
-  const controls = (form as unknown as { controls: Record<string, any> })?.controls;
+  const controls = form?.controls;
 
   function addTeam() {
-    if (!form) return;
-    const teamsCtrl = form.getControl('teams');
-    if (!teamsCtrl) return;
-    const arr = teamsCtrl.value;
-    arr.push(
-      formGroup<Team>({ name: `New ${arr.length + 1}`, captain: { name: 'New Cap', score: 0 }, roster: [] })
+    const teams = form?.getControl('teams');
+    teams?.push(
+      formGroup<Team>({ name: `New ${teams.length + 1}`, captain: formGroup<Player>({ name: 'New Cap', score: 0 }), roster: [[], [], { itemForm: formGroup<Player>({ name: '', score: 0 }) }] })
     );
-    teamsCtrl.value = arr.slice();
   }
 
   function addPlayer(teamIndex: number) {
-    if (!form) return;
-    const teamsCtrl = form.getControl('teams');
-    if (!teamsCtrl) return;
-    const teamForm = teamsCtrl.value[teamIndex];
-    const rosterCtrl = teamForm.getControl('roster');
-    const arr = rosterCtrl?.value ?? [];
-    arr.push(formGroup<Player>({ name: 'Rookie', score: 0 }));
-    if (rosterCtrl) rosterCtrl.value = arr.slice();
+    const roster = form?.getControl('teams')?.at(teamIndex)?.getControl('roster');
+    roster?.push(formGroup<Player>({ name: 'Rookie', score: 0 }));
   }
 
   return (
@@ -69,14 +59,14 @@ export const NestedFormsPage: React.FC = () => {
           <button data-testid="add-team" onClick={addTeam}>Add Team</button>
 
           <div>
-            {(controls?.teams.value ?? []).map((teamForm: Form<Team>, idx: number) => (
+            {(controls?.teams.value ?? []).map((teamForm, idx) => (
               <fieldset key={idx} style={{ marginTop: 12 }}>
                 <legend>Team {idx + 1}</legend>
                 <label>
                   Name
                   <input
-                    value={String((teamForm as any).controls.name.value)}
-                    onChange={(e) => (teamForm as any).controls.name.value = e.currentTarget.value}
+                    value={String(teamForm.controls.name.value)}
+                    onChange={(e) => teamForm.controls.name.value = e.currentTarget.value}
                   />
                 </label>
                 <fieldset style={{ marginTop: 8 }}>
@@ -84,32 +74,32 @@ export const NestedFormsPage: React.FC = () => {
                   <label>
                     Name
                     <input
-                      value={String((teamForm as any).controls.captain.value.controls.name.value)}
-                      onChange={(e) => (teamForm as any).controls.captain.value.controls.name.value = e.currentTarget.value}
+                      value={String(teamForm.controls.captain.value.controls.name.value)}
+                      onChange={(e) => teamForm.controls.captain.value.controls.name.value = e.currentTarget.value}
                     />
                   </label>
                   <label>
                     Score
                     <input
                       type="number"
-                      value={String((teamForm as any).controls.captain.value.controls.score.value)}
-                      onChange={(e) => (teamForm as any).controls.captain.value.controls.score.value = Number(e.currentTarget.value)}
+                      value={String(teamForm.controls.captain.value.controls.score.value)}
+                      onChange={(e) => teamForm.controls.captain.value.controls.score.value = Number(e.currentTarget.value)}
                     />
                   </label>
                 </fieldset>
                 <div style={{ marginTop: 8 }}>
                   <button onClick={() => addPlayer(idx)} data-testid={`add-player-${idx}`}>Add Player</button>
                   <div style={{ display: 'grid', gap: 6, marginTop: 6 }}>
-                    {(teamForm.getControl('roster')?.value ?? []).map((playerForm: Form<Player>, pIdx: number) => (
+                    {(teamForm.getControl('roster')?.value ?? []).map((playerForm, pIdx) => (
                       <div key={pIdx}>
                         <input
-                          value={String((playerForm as any).controls.name.value)}
-                          onChange={(e) => (playerForm as any).controls.name.value = e.currentTarget.value}
+                          value={String(playerForm.controls.name.value)}
+                          onChange={(e) => playerForm.controls.name.value = e.currentTarget.value}
                         />
                         <input
                           type="number"
-                          value={String((playerForm as any).controls.score.value)}
-                          onChange={(e) => (playerForm as any).controls.score.value = Number(e.currentTarget.value)}
+                          value={String(playerForm.controls.score.value)}
+                          onChange={(e) => playerForm.controls.score.value = Number(e.currentTarget.value)}
                         />
                       </div>
                     ))}
@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from "vitest";
+import { Validators } from "../form";
+import { formGroup } from "../form/functional";
+import type { StatusChangeEvent, ValueChangeEvent } from "../types/control.types";
+import { delay, Order, orderTemplate } from "../test/form-test-utils";
+
+const order = () => formGroup<Order>(orderTemplate());
+
+const record = <E>() => {
+  const events: E[] = [];
+  return { events, listener: (event: E) => events.push(event) };
+};
+
+describe("Form / FormControl - valueChanges and statusChanges", () => {
+  it("notifies control listeners until they unsubscribe", () => {
+    const form = order();
+    const { events, listener } = record<ValueChangeEvent>();
+    const unsubscribe = form.controls.email.valueChanges.subscribe(listener);
+
+    form.controls.email.value = "grace@example.com";
+    form.controls.email.value = "grace@example.com";
+    unsubscribe();
+    form.controls.email.value = "alan@example.com";
+
+    expect(events).toEqual([
+      { path: "", previousValue: "ada@example.com", value: "grace@example.com" },
+    ]);
+  });
+
+  it("bubbles value changes of nested forms and form arrays with their path", () => {
+    const form = order();
+    const { events, listener } = record<ValueChangeEvent>();
+    const items = record<ValueChangeEvent>();
+    form.valueChanges.subscribe(listener);
+    form.controls.items.valueChanges.subscribe(items.listener);
+
+    form.controls.address.value.controls.zip.value = "54321";
+    form.controls.items.value[1]!.controls.qty.value = 3;
+    form.setValue("items.0.name", "Pencil");
+
+    expect(events).toEqual([
+      { path: "address.zip", previousValue: "12345", value: "54321" },
+      { path: "items.1.qty", previousValue: 2, value: 3 },
+      { path: "items.0.name", previousValue: "Pen", value: "Pencil" },
+    ]);
+    expect(items.events.map((event) => event.path)).toEqual(["1.qty", "0.name"]);
+  });
+
+  it("reports form-array operations once, with built values", () => {
+    const form = order();
+    const { events, listener } = record<ValueChangeEvent>();
+    form.valueChanges.subscribe(listener);
+
+    form.controls.items.push(formGroup({ name: "Pad", qty: 5 }));
+    form.controls.items.value[2]!.controls.qty.value = 4;
+    form.controls.items.removeAt(0);
+
+    expect(events).toEqual([
+      {
+        path: "items",
+        previousValue: [{ name: "Pen", qty: 1 }, { name: "Ink", qty: 2 }],
+        value: [{ name: "Pen", qty: 1 }, { name: "Ink", qty: 2 }, { name: "Pad", qty: 5 }],
+      },
+      { path: "items.2.qty", previousValue: 5, value: 4 },
+      {
+        path: "items",
+        previousValue: [{ name: "Pen", qty: 1 }, { name: "Ink", qty: 2 }, { name: "Pad", qty: 4 }],
+        value: [{ name: "Ink", qty: 2 }, { name: "Pad", qty: 4 }],
+      },
+    ]);
+  });
+
+  it("notifies status changes of controls, nested forms and the form", () => {
+    const form = formGroup({
+      email: ["ada@example.com", [Validators.required]],
+      address: formGroup({ zip: ["12345", [Validators.required]] }),
+    });
+    const { events, listener } = record<StatusChangeEvent>();
+    form.statusChanges.subscribe(listener);
+
+    form.controls.email.value = "";
+    form.controls.email.value = "grace@example.com";
+    form.controls.address.value.controls.zip.value = "";
+
+    expect(events).toEqual([
+      { path: "email", previousStatus: "valid", status: "invalid" },
+      { path: "", previousStatus: "valid", status: "invalid" },
+      { path: "email", previousStatus: "invalid", status: "valid" },
+      { path: "", previousStatus: "invalid", status: "valid" },
+      { path: "address.zip", previousStatus: "valid", status: "invalid" },
+      { path: "address", previousStatus: "valid", status: "invalid" },
+      { path: "", previousStatus: "valid", status: "invalid" },
+    ]);
+    expect(form.status).toBe("invalid");
+  });
+
+  it("reports pending async validation", async () => {
+    const available = async (value: string) => {
+      await delay(5);
+      return value !== "admin";
+    };
+    const form = formGroup({ username: ["ada", [available]] });
+    await form.whenSettled();
+    const listener = vi.fn();
+    form.controls.username.statusChanges.subscribe(listener);
+
+    form.controls.username.value = "admin";
+    expect(form.controls.username.status).toBe("pending");
+    await form.whenSettled();
+
+    expect(listener.mock.calls.map(([event]) => event.status)).toEqual(["pending", "invalid"]);
+  });
+
+  it("keeps listeners subscribed before a form was nested", () => {
+    const address = formGroup({ street: "Main St" });
+    const listener = vi.fn();
+    address.valueChanges.subscribe(listener);
+
+    const form = formGroup({ address });
+    form.controls.address.value.controls.street.value = "Side St";
+
+    expect(listener).toHaveBeenCalledWith({
+      path: "street",
+      previousValue: "Main St",
+      value: "Side St",
+    });
+  });
+
+  it("reports resets", () => {
+    const form = order();
+    const listener = vi.fn();
+    form.controls.email.value = "grace@example.com";
+    form.valueChanges.subscribe(listener);
+
+    form.controls.email.reset();
+
+    expect(listener).toHaveBeenCalledWith({
+      path: "email",
+      previousValue: "grace@example.com",
+      value: "ada@example.com",
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+import { Form, Validators } from "../form";
+import { formGroup } from "../form/functional";
+import { ValidatorFn } from "../types/validator.types";
+import { parsePath } from "../form/util/path.util";
+type Item = { qty: number };
+
+
+const matchesPassword: ValidatorFn<string> = (value, ctx) => ({
+  valid: value === ctx?.get?.("password"),
+  code: "mismatch",
+  message: "Passwords must match.",
+});
+
+describe("Form - dependency-tracked re-validation", () => {
+  it("parses dot and bracket paths", () => {
+    expect(parsePath("items[0].name")).toEqual(["items", "0", "name"]);
+    expect(parsePath("items.0.name")).toEqual(["items", "0", "name"]);
+  });
+
+  it("re-validates a control when a value read through ctx.get changes", () => {
+    const form = formGroup({
+      password: ["secret"],
+      confirmPassword: ["secret", [matchesPassword]],
+    });
+    expect(form.controls.confirmPassword.valid).toBe(true);
+
+    form.controls.password.value = "changed";
+    expect(form.controls.confirmPassword.valid).toBe(false);
+    expect(form.controls.confirmPassword.hasError("mismatch")).toBe(true);
+    expect(form.valid).toBe(false);
+
+    form.controls.confirmPassword.value = "changed";
+    expect(form.valid).toBe(true);
+  });
+
+  it("re-validates controls that declare dependsOn", () => {
+    const euCountries = ["DE", "FR"];
+    let country = "US";
+    const vatRequired = vi.fn((value: string) => ({
+      valid: !euCountries.includes(country) || value !== "",
+      code: "required",
+    }));
+    const form = formGroup({
+      country: ["US"],
+      vatNumber: ["", [vatRequired], { dependsOn: ["country"] }],
+    });
+    expect(form.controls.vatNumber.valid).toBe(true);
+
+    country = "DE";
+    form.controls.country.value = "DE";
+    expect(form.controls.vatNumber.valid).toBe(false);
+
+    const calls = vatRequired.mock.calls.length;
+    form.controls.vatNumber.value = "DE123";
+    expect(form.controls.vatNumber.valid).toBe(true);
+    expect(vatRequired.mock.calls.length).toBe(calls + 1);
+  });
+
+  it("tracks dependencies across nested forms and form-array items", () => {
+    const withinLimit: ValidatorFn<number> = (value, ctx) => ({
+      valid: value <= (ctx?.get?.("limits.maxQty") as number),
+      code: "overLimit",
+    });
+    const form = formGroup<any>({
+      limits: formGroup({ maxQty: 5 }),
+      items: [
+        formGroup<Item>({ qty: [3, [withinLimit]] }),
+        formGroup<Item>({ qty: [4, [withinLimit]] }),
+      ],
+    });
+    const limits = () => form.controls.limits.value as Form<{ maxQty: number }>;
+    const items = () => form.controls.items.value as Form<Item>[];
+    const qty = (index: number) => items()[index]!.controls.qty;
+    expect(qty(0).valid).toBe(true);
+    expect(qty(1).valid).toBe(true);
+
+    limits().controls.maxQty.value = 3;
+    expect(qty(0).valid).toBe(true);
+    expect(qty(1).valid).toBe(false);
+    expect(items()[1]!.valid).toBe(false);
+  });
+
+  it("lets a top-level control depend on a nested form field", () => {
+    const form = formGroup({
+      address: formGroup({ country: "US" }),
+      state: [
+        "",
+        [
+          (value: string, ctx) => ({
+            valid: ctx?.get?.("address.country") !== "US" || value !== "",
+            code: "stateRequired",
+          }),
+        ],
+      ],
+    });
+    expect(form.controls.state.valid).toBe(false);
+
+    form.controls.address.value.controls.country.value = "FR";
+    expect(form.controls.state.valid).toBe(true);
+    expect(form.valid).toBe(true);
+  });
+
+  it("leaves blur/submit controls alone until they are validated", () => {
+    const form = formGroup({
+      password: ["secret"],
+      confirmPassword: ["secret", [matchesPassword], { updateOn: "blur" }],
+    });
+
+    form.controls.password.value = "changed";
+    expect(form.controls.confirmPassword.valid).toBe(true);
+
+    form.controls.confirmPassword.markAsBlurred();
+    expect(form.controls.confirmPassword.valid).toBe(false);
+  });
+});
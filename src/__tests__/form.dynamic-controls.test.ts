@@ -0,0 +1,111 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import { Form, FormControl, Validators } from "../form";
+import { formGroup } from "../form/functional";
+import { statefulForm } from "../test/form-test-utils";
+
+type Company = { name: string; vatId: string };
+type Account = { type: string; email: string; company?: Form<Company> };
+
+const company = (name = "") =>
+  formGroup<Company>({ name: [name, [Validators.required]], vatId: "" });
+
+const account = (options?: { readOnly?: boolean }) =>
+  statefulForm<Account>(
+    { type: "business", email: ["ada@example.com", [Validators.required]], company: company() },
+    options,
+  );
+
+describe("Form - removeControl / replaceControl / setControl", () => {
+  it("removes a control from the controls, validity and build output", () => {
+    const { form, setState, latest } = account();
+    expect(form.isValid()).toBe(false);
+
+    form.removeControl("company");
+
+    expect(setState).toHaveBeenCalledTimes(1);
+    expect("company" in latest().controls).toBe(false);
+    expect(latest().getControl("company")).toBeUndefined();
+    expect(latest().isValid()).toBe(true);
+    expect(latest().build()).toEqual({ type: "business", email: "ada@example.com" });
+  });
+
+  it("logs and ignores unknown keys", () => {
+    const { form, setState } = account();
+    const error = vi.spyOn(console, "dError").mockImplementation(() => {});
+
+    form.removeControl("company");
+    form.removeControl("company");
+    form.replaceControl("company", company("Acme"));
+
+    expect(setState).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledTimes(2);
+    expect(form.controls.company).toBeUndefined();
+    error.mockRestore();
+  });
+
+  it("adds a control back with setControl and keeps it hooked", () => {
+    const { form, latest } = account();
+
+    form.removeControl("company");
+    latest().setControl("company", company("Acme"));
+    latest().controls.company!.value.controls.vatId.value = "ATU123";
+
+    expect(latest().build()).toEqual({
+      type: "business",
+      email: "ada@example.com",
+      company: { name: "Acme", vatId: "ATU123" },
+    });
+    expect(latest().controls.company!.value.controls.vatId.dirty).toBe(true);
+  });
+
+  it("replaces a control and detaches the old one", () => {
+    const { form, latest } = account();
+    const old = form.controls.email;
+
+    form.replaceControl("email", ["grace@example.com", [Validators.email]]);
+    old.value = "stale@example.com";
+
+    expect(latest().controls.email).not.toBe(old);
+    expect(latest().build().email).toBe("grace@example.com");
+    expect(latest().controls.email.dirty).toBe(false);
+
+    latest().controls.email.value = "not an email";
+    expect(latest().valid).toBe(false);
+  });
+
+  it("applies the form's readonly and disabled state to new controls", () => {
+    const { form, latest } = account({ readOnly: true });
+    form.disabled = true;
+
+    latest().setControl("company", company("Acme"));
+    const section = latest().controls.company!;
+    expect(section.readonly).toBe(true);
+    expect(section.disabled).toBe(true);
+    expect(section.value.readonly).toBe(true);
+    expect(section.value.controls.name.disabled).toBe(true);
+
+    latest().setControl("company", formGroup<Company>({ name: "Acme", vatId: "" }, { readOnly: false }));
+    expect(latest().controls.company!.value.readonly).toBe(false);
+    expect(latest().controls.company!.value.disabled).toBe(true);
+  });
+
+  it("recreates nested forms without removed controls", () => {
+    const details = formGroup<{ name: string; nickname?: string }>({ name: "Ada", nickname: "A" });
+    details.removeControl("nickname");
+
+    const form = formGroup({ details });
+
+    expect(form.build()).toEqual({ details: { name: "Ada" } });
+    expect(FormControl.isFormControl(form.controls.details.value.controls.name)).toBe(true);
+  });
+
+  it("only removes optional fields and types templates by key", () => {
+    const { form } = account();
+
+    expectTypeOf(form.removeControl).parameter(0).toEqualTypeOf<"company">();
+    // @ts-expect-error required fields cannot be removed
+    form.removeControl("email");
+    // @ts-expect-error the template must match the field type
+    form.setControl("email", [42]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from "vitest";
+import { Form, FormArray } from "../form";
+import { formGroup } from "../form/functional";
+import { Item, Order, orderItem, orderTemplate, statefulForm } from "../test/form-test-utils";
+
+type NotedOrder = Order & { notes: string[] };
+
+const order = (options?: { readOnly?: boolean }) =>
+  statefulForm<NotedOrder>({ ...orderTemplate(), notes: [[], []] }, options);
+
+const names = (items: FormArray<Item, NotedOrder>) =>
+  items.value.map((form) => form.controls.name.value);
+
+describe("FormArray", () => {
+  it("is created for arrays of forms but not for plain empty arrays", () => {
+    const { form } = order();
+
+    expect(FormArray.isFormArray(form.controls.items)).toBe(true);
+    expect(FormArray.isFormArray(form.controls.notes)).toBe(false);
+    expect(FormArray.isFormArray(form.controls.email)).toBe(false);
+    expect(form.controls.items.length).toBe(2);
+    expect(form.controls.items.at(-1)?.controls.name.value).toBe("Ink");
+  });
+
+  it("is created for empty arrays declared with an item form", () => {
+    const { form, latest } = statefulForm<{ items: Array<Form<Item>> }>({
+      items: [[], [], { itemForm: orderItem("") }],
+    });
+
+    expect(FormArray.isFormArray(form.controls.items)).toBe(true);
+    expect(form.controls.items.length).toBe(0);
+
+    form.setValue({ items: [{ name: "Pad", qty: 2 }] });
+    expect(Form.isForm(latest().controls.items.at(0))).toBe(true);
+    expect(latest().build()).toEqual({ items: [{ name: "Pad", qty: 2 }] });
+  });
+
+  it("pushes, inserts and removes items with a single update each", () => {
+    const { form, setState, latest } = order();
+    const items = form.controls.items;
+
+    items.push(orderItem("Pad"));
+    expect(setState).toHaveBeenCalledTimes(1);
+    items.insert(0, orderItem("Clip"), orderItem("Tape"));
+    expect(setState).toHaveBeenCalledTimes(2);
+    items.removeAt(2);
+    expect(setState).toHaveBeenCalledTimes(3);
+
+    expect(names(latest().controls.items)).toEqual(["Clip", "Tape", "Ink", "Pad"]);
+    expect(latest().build().items).toHaveLength(4);
+  });
+
+  it("moves, swaps, replaces and clears items", () => {
+    const { form, latest } = order();
+    const items = form.controls.items;
+
+    items.push(orderItem("Pad"));
+    items.move(0, 2);
+    expect(names(latest().controls.items)).toEqual(["Ink", "Pad", "Pen"]);
+    items.swap(0, 2);
+    expect(names(latest().controls.items)).toEqual(["Pen", "Pad", "Ink"]);
+    items.replace([orderItem("Clip")]);
+    expect(names(latest().controls.items)).toEqual(["Clip"]);
+    items.clear();
+    expect(latest().controls.items.length).toBe(0);
+  });
+
+  it("ignores indexes out of range", () => {
+    const { form, setState } = order();
+    const error = vi.spyOn(console, "dError").mockImplementation(() => {});
+
+    form.controls.items.removeAt(5);
+    form.controls.items.move(0, -1);
+    form.controls.items.swap(0, 0);
+    form.controls.items.insert(-1, orderItem("Pad"));
+    form.controls.items.insert(3, orderItem("Pad"));
+
+    expect(setState).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledWith("FormArray items: index 5 is out of range.");
+    expect(error).toHaveBeenCalledWith("FormArray items: index -1 is out of range.");
+    expect(error).toHaveBeenCalledWith("FormArray items: index 3 is out of range.");
+    error.mockRestore();
+  });
+
+  it("inserts at the end of the array", () => {
+    const { form, latest } = order();
+
+    form.controls.items.insert(2, orderItem("Pad"));
+
+    expect(names(latest().controls.items)).toEqual(["Pen", "Ink", "Pad"]);
+  });
+
+  it("hooks new items so their updates reach the parent form", () => {
+    const { form, latest } = order();
+
+    form.controls.items.push(orderItem("Pad"));
+    latest().controls.items.at(2)!.controls.qty.value = 2;
+
+    expect(latest().build().items[2]).toEqual({ name: "Pad", qty: 2 });
+    expect(latest().controls.items.at(2)!.controls.qty.dirty).toBe(true);
+  });
+
+  it("updates dirty and valid state", () => {
+    const { form, latest } = order();
+    expect(form.controls.items.dirty).toBe(false);
+
+    form.controls.items.push(orderItem("Pad", 5));
+    expect(latest().controls.items.dirty).toBe(true);
+    expect(latest().isValid()).toBe(false);
+
+    latest().controls.items.removeAt(2);
+    expect(latest().isValid()).toBe(true);
+  });
+
+  it("keeps readonly and disabled inheritance for new items", () => {
+    const { form, latest } = order({ readOnly: true });
+
+    form.controls.items.disabled = true;
+    latest().controls.items.push(orderItem("Pad"), formGroup<Item>({ name: "Clip", qty: 1 }, { readOnly: false }));
+    const [, , pad, clip] = latest().controls.items.value;
+
+    expect(pad!.readonly).toBe(true);
+    expect(pad!.disabled).toBe(true);
+    expect(clip!.readonly).toBe(false);
+    expect(clip!.disabled).toBe(true);
+  });
+
+  it("applies consecutive operations to the latest items", () => {
+    const { form, latest } = order();
+
+    form.controls.items.push(orderItem("Pad"));
+    form.controls.items.push(orderItem("Clip"));
+    form.controls.items.removeAt(0);
+
+    expect(names(latest().controls.items)).toEqual(["Ink", "Pad", "Clip"]);
+  });
+});
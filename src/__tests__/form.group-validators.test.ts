@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { Form, FormControl, Validators } from "../form";
+import { formGroup } from "../form/functional";
+import { ValidatorFn } from "../types/validator.types";
+import { delay } from "../test/form-test-utils";
+
+type Passwords = { password: string; confirmPassword: string };
+
+const passwordsMatch: ValidatorFn<Passwords> = (value) => ({
+  valid: value.password === value.confirmPassword,
+  message: "Passwords must match.",
+});
+
+describe("Form - form-level validators", () => {
+  it("contributes to valid and invalids and re-runs on child changes", () => {
+    const form = formGroup<Passwords>(
+      {
+        password: ["secret", [Validators.required]],
+        confirmPassword: ["other"],
+      },
+      { validators: [passwordsMatch] },
+    );
+
+    expect(form.valid).toBe(false);
+    expect(form.invalids).toHaveLength(1);
+    const [entry] = form.invalids;
+    expect(FormControl.isFormControl(entry)).toBe(false);
+    expect((entry as { result: { message?: string } }).result.message).toBe(
+      "Passwords must match.",
+    );
+
+    form.controls.confirmPassword.value = "secret";
+    expect(form.valid).toBe(true);
+    expect(form.invalids).toHaveLength(0);
+    expect(form.formInvalids[0]?.result.valid).toBe(true);
+
+    form.controls.password.value = "";
+    expect(form.valid).toBe(false);
+    expect(form.invalids.map((i) => (i as FormControl<any, any>).key)).toContain(
+      "password",
+    );
+    expect(form.invalids).toHaveLength(2);
+  });
+
+  it("receives the built value including nested forms", () => {
+    const seen: unknown[] = [];
+    const form = formGroup(
+      {
+        start: 1,
+        range: formGroup({ end: 5 }),
+      },
+      {
+        validators: [
+          (value: any) => {
+            seen.push(value);
+            return value.range.end > value.start;
+          },
+        ],
+      },
+    );
+
+    expect(form.valid).toBe(true);
+    expect(seen.at(-1)).toEqual({ start: 1, range: { end: 5 } });
+
+    form.controls.start.value = 10;
+    expect(form.valid).toBe(false);
+
+    form.controls.range.value.controls.end.value = 20;
+    expect(seen.at(-1)).toEqual({ start: 10, range: { end: 20 } });
+    expect(form.valid).toBe(true);
+  });
+
+  it("keeps validators of a nested formGroup when it is embedded in a parent", () => {
+    const form = formGroup({
+      credentials: formGroup<Passwords>(
+        { password: "a", confirmPassword: "b" },
+        { validators: [passwordsMatch] },
+      ),
+    });
+
+    const nested = form.controls.credentials.value as Form<Passwords>;
+    expect(nested.hasValidator(passwordsMatch)).toBe(true);
+    expect(nested.valid).toBe(false);
+
+    nested.controls.confirmPassword.value = "a";
+    expect((form.controls.credentials.value as Form<Passwords>).valid).toBe(true);
+  });
+
+  it("supports adding and removing validators at runtime", () => {
+    const form = formGroup<Passwords>({ password: "a", confirmPassword: "b" });
+    expect(form.valid).toBe(true);
+
+    form.addValidator(passwordsMatch);
+    expect(form.hasValidator(passwordsMatch)).toBe(true);
+    expect(form.valid).toBe(false);
+
+    form.removeValidator(passwordsMatch);
+    expect(form.valid).toBe(true);
+  });
+
+  it("supports async form-level validators with pending state", async () => {
+    const form = formGroup<Passwords>(
+      { password: "a", confirmPassword: "b" },
+      {
+        validators: [
+          async (value) => {
+            await delay(5);
+            return value.password === value.confirmPassword;
+          },
+        ],
+      },
+    );
+
+    expect(form.pending).toBe(true);
+    await expect(form.whenSettled()).resolves.toBe(false);
+    expect(form.pending).toBe(false);
+    expect(form.valid).toBe(false);
+
+    form.controls.confirmPassword.value = "a";
+    await expect(form.whenSettled()).resolves.toBe(true);
+    expect(form.valid).toBe(true);
+  });
+});
@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { formGroup } from "../form/functional";
+import { History, HistoryOptions } from "../state/history";
+import { Order, orderItem, orderTemplate, statefulForm } from "../test/form-test-utils";
+
+const order = (history: boolean | HistoryOptions = true) =>
+  formGroup<Order & { note?: string }>({ ...orderTemplate(), note: "" }, { history });
+
+// Changes made in the same task form one step
+const nextTask = () => Promise.resolve();
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("Form - undo/redo history", () => {
+  it("undoes and redoes value changes", async () => {
+    const form = order();
+    expect(form.canUndo).toBe(false);
+
+    form.controls.email.value = "grace@example.com";
+    await nextTask();
+    form.controls.note.value = "Leave at the door";
+    await nextTask();
+    expect(form.canUndo).toBe(true);
+
+    form.undo();
+    expect(form.controls.note.value).toBe("");
+    expect(form.controls.email.value).toBe("grace@example.com");
+    form.undo();
+    expect(form.controls.email.value).toBe("ada@example.com");
+    expect(form.canUndo).toBe(false);
+    expect(form.canRedo).toBe(true);
+
+    form.redo();
+    form.redo();
+    expect(form.build().note).toBe("Leave at the door");
+    expect(form.canRedo).toBe(false);
+
+    form.undo();
+    form.controls.email.value = "alan@example.com";
+    expect(form.canRedo).toBe(false);
+    form.redo();
+    expect(form.build().note).toBe("");
+  });
+
+  it("coalesces rapid edits of one path and changes made in the same task", async () => {
+    vi.useFakeTimers();
+    const form = order({ coalesceMs: 300 });
+
+    for (const value of ["g", "gr", "gra"]) {
+      form.controls.email.value = value;
+      await nextTask();
+      vi.advanceTimersByTime(100);
+    }
+    vi.advanceTimersByTime(400);
+    form.controls.email.value = "grace";
+    await nextTask();
+    vi.advanceTimersByTime(400);
+
+    form.setValue({ ...form.build(), email: "x", note: "y" });
+    await nextTask();
+
+    form.undo();
+    expect(form.build()).toMatchObject({ email: "grace", note: "" });
+    form.undo();
+    expect(form.controls.email.value).toBe("gra");
+    form.undo();
+    expect(form.controls.email.value).toBe("ada@example.com");
+    expect(form.canUndo).toBe(false);
+  });
+
+  it("does not join an edit after undo to the restored step", async () => {
+    const form = order();
+    form.controls.email.value = "a";
+    await nextTask();
+    form.controls.email.value = "ab";
+    await nextTask();
+
+    form.undo();
+    form.controls.email.value = "ac";
+    form.undo();
+    expect(form.controls.email.value).toBe("ada@example.com");
+    expect(form.canRedo).toBe(true);
+  });
+
+  it("keeps at most depth steps", async () => {
+    const form = order({ depth: 2, coalesceMs: 0 });
+
+    for (const note of ["a", "b", "c"]) {
+      form.setValue("email", `${note}@example.com`);
+      await nextTask();
+      form.controls.note.value = note;
+      await nextTask();
+    }
+
+    form.undo();
+    form.undo();
+    expect(form.canUndo).toBe(false);
+    expect(form.build()).toMatchObject({ email: "b@example.com", note: "b" });
+  });
+
+  it("restores nested forms and form-array insertions and removals", async () => {
+    const form = order();
+    const items = () => form.controls.items;
+
+    form.controls.address.value.controls.zip.value = "54321";
+    await nextTask();
+    items().push(orderItem("Pad", 5));
+    await nextTask();
+    items().removeAt(0);
+    await nextTask();
+    expect(form.build().items).toEqual([
+      { name: "Ink", qty: 2 },
+      { name: "Pad", qty: 5 },
+    ]);
+
+    form.undo();
+    expect(form.build().items.map((i) => i.name)).toEqual(["Pen", "Ink", "Pad"]);
+    form.undo();
+    expect(form.build().items.map((i) => i.name)).toEqual(["Pen", "Ink"]);
+    expect(form.isValid()).toBe(true);
+    form.undo();
+    expect(form.build().address.zip).toBe("12345");
+
+    form.redo();
+    form.redo();
+    expect(items().value[2]!.controls.qty.hasError("max")).toBe(true);
+    expect(form.isValid()).toBe(false);
+    items().value[2]!.controls.name.value = "Notepad";
+    expect(form.canRedo).toBe(false);
+    form.undo();
+    expect(form.build().items.map((i) => i.name)).toEqual(["Pen", "Ink", "Pad"]);
+  });
+
+  it("restores values without marking the other controls dirty or touched", async () => {
+    const form = order();
+
+    form.controls.note.value = "Leave at the door";
+    await nextTask();
+    form.undo();
+
+    expect(form.controls.note.value).toBe("");
+    expect(form.controls.note.touched).toBe(true);
+    expect(form.controls.email.touched).toBe(false);
+    expect(form.controls.email.dirty).toBe(false);
+    expect(form.controls.address.value.controls.street.touched).toBe(false);
+    expect(form.controls.items.at(0)!.controls.name.touched).toBe(false);
+    expect(form.controls.items.at(0)!.controls.name.dirty).toBe(false);
+    expect(form.controls.items.dirty).toBe(false);
+  });
+
+  it("propagates a restored value", async () => {
+    const { form, setState, latest } = statefulForm<{ title: string }>(
+      { title: "" },
+      { history: true },
+    );
+
+    form.controls.title.value = "Draft";
+    await nextTask();
+    setState.mockClear();
+
+    form.undo();
+    expect(setState).toHaveBeenCalled();
+    expect(latest().controls.title.value).toBe("");
+    expect(latest().canRedo).toBe(true);
+  });
+
+  it("starts over when controls are removed or replaced and ignores undo without history", async () => {
+    const form = order();
+    form.controls.note.value = "x";
+    await nextTask();
+    form.removeControl("note");
+    expect(form.canUndo).toBe(false);
+
+    const plain = formGroup({ title: "" });
+    plain.controls.title.value = "Draft";
+    plain.undo();
+    expect(plain.canUndo).toBe(false);
+    expect(plain.controls.title.value).toBe("Draft");
+  });
+
+  it("records snapshots on a plain History", () => {
+    const history = new History(0, { coalesceMs: 0 });
+    history.record("n", 1);
+    history.pause(() => history.record("n", 2));
+
+    expect(history.undo()).toBe(0);
+    expect(history.undo()).toBeUndefined();
+    expect(history.redo()).toBe(1);
+  });
+});
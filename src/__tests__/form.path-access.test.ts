@@ -0,0 +1,142 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { Form, FormControl } from "../form";
+import { formGroup } from "../form/functional";
+import type { FormValue, Path, PathValue } from "../types/path.types";
+import { Item, Order, orderItem, orderTemplate } from "../test/form-test-utils";
+
+type TaggedOrder = Order & {
+  tags: string[];
+  meta: { source: string; flags: { gift: boolean } };
+};
+
+const order = () =>
+  formGroup<TaggedOrder>({
+    ...orderTemplate({ items: [orderItem("Pen"), orderItem("Ink", 2), orderItem("Pad", 5)] }),
+    tags: [["new", "sale"]],
+    meta: { source: "web", flags: { gift: false } },
+  });
+
+describe("Form - path-based access", () => {
+  it("gets controls through nested forms and form arrays", () => {
+    const form = order();
+
+    expect(form.get("email")?.value).toBe("ada@example.com");
+    expect(form.get("address.street")?.value).toBe("Main St");
+    expect(form.get("items.2.qty")?.valid).toBe(false);
+    expect(FormControl.isFormControl(form.get("items"))).toBe(true);
+    expect(form.get("items.0")).toBeUndefined();
+    expect(form.get("meta.source")).toBeUndefined();
+    expect(form.get("items.9.name" as Path<TaggedOrder>)).toBeUndefined();
+  });
+
+  it("gets values, building nested forms", () => {
+    const form = order();
+
+    expect(form.getValue("address.zip")).toBe("12345");
+    expect(form.getValue("address")).toEqual({ street: "Main St", zip: "12345" });
+    expect(form.getValue("items.1")).toEqual({ name: "Ink", qty: 2 });
+    expect(form.getValue("items").map((item) => item.name)).toEqual(["Pen", "Ink", "Pad"]);
+    expect(form.getValue("tags.1")).toBe("sale");
+    expect(form.getValue("meta.flags.gift")).toBe(false);
+    expect(form.getValue("items.7.name")).toBeUndefined();
+  });
+
+  it("sets values at any depth and re-validates", () => {
+    const form = order();
+
+    form.setValue("items.2.qty", 2);
+    expect(form.get("items.2.qty")?.valid).toBe(true);
+    expect(form.get("items.2.qty")?.dirty).toBe(true);
+
+    form.setValue("address.street", "Side St");
+    form.setValue("items.0", { name: "Pencil", qty: 4 });
+    form.setValue("address", { street: "Elm St", zip: "54321" });
+    form.setValue("tags.0", "old");
+    form.setValue("meta.flags.gift", true, { markAsDirty: false });
+
+    expect(form.build()).toEqual({
+      email: "ada@example.com",
+      address: { street: "Elm St", zip: "54321" },
+      items: [
+        { name: "Pencil", qty: 4 },
+        { name: "Ink", qty: 2 },
+        { name: "Pad", qty: 2 },
+      ],
+      tags: ["old", "sale"],
+      meta: { source: "web", flags: { gift: true } },
+    });
+    expect(form.get("meta")?.dirty).toBe(false);
+  });
+
+  it("sets form arrays from plain data, keeping item forms", () => {
+    const form = order();
+    const items = () => form.controls.items.value;
+
+    form.setValue("items", [
+      { name: "Pencil", qty: 1 },
+      { name: "Ink", qty: 3 },
+    ]);
+    expect(items()).toHaveLength(2);
+    expect(items().every((item) => Form.isForm(item))).toBe(true);
+
+    form.setValue("items", [
+      { name: "Pencil", qty: 1 },
+      { name: "Ink", qty: 3 },
+      { name: "Clip", qty: 2 },
+    ]);
+    expect(Form.isForm(items()[2])).toBe(true);
+    expect(form.getValue("items")).toEqual([
+      { name: "Pencil", qty: 1 },
+      { name: "Ink", qty: 3 },
+      { name: "Clip", qty: 2 },
+    ]);
+    expect(() => form.setValue("items", [{ name: "Pen" } as Item])).toThrow(
+      "Cannot set items: missing value for items.0.qty",
+    );
+  });
+
+  it("accepts bracket paths at runtime and throws for unknown paths on write", () => {
+    const form = order();
+
+    expect(form.getValue("items[1].name" as Path<TaggedOrder>)).toBe("Ink");
+    form.setValue("items[1].name" as "items.1.name", "Ink cartridge");
+    expect(form.getValue("items.1.name")).toBe("Ink cartridge");
+
+    expect(() => form.setValue("items.5.name", "x")).toThrow(
+      "No control found for path: items.5.name",
+    );
+    expect(() => form.setValue("address.country" as Path<TaggedOrder>, "x")).toThrow();
+  });
+
+  it("derives typed paths and values from the form type", () => {
+    const form = order();
+
+    expectTypeOf(form.getValue("address.street")).toEqualTypeOf<string>();
+    expectTypeOf(form.getValue("items.0.qty")).toEqualTypeOf<number>();
+    expectTypeOf(form.getValue("items")).toEqualTypeOf<Item[]>();
+    expectTypeOf(form.get("meta.flags")).toEqualTypeOf<
+      FormControl<{ gift: boolean }, any> | undefined
+    >();
+    expectTypeOf<PathValue<TaggedOrder, "tags.3">>().toEqualTypeOf<string>();
+    expectTypeOf<"address.city">().not.toMatchTypeOf<Path<TaggedOrder>>();
+
+    // @ts-expect-error misspelled path
+    form.getValue("adress.street");
+    // @ts-expect-error wrong value type
+    form.setValue("items.0.qty", "many");
+
+    const nested = formGroup({
+      pet: formGroup({ type: "Dog", age: 5 }),
+      owners: [
+        formGroup({ name: "Ada" }),
+        formGroup({ name: "Grace" }),
+        formGroup({ name: "Alan" }),
+      ],
+    });
+    expectTypeOf(nested.getValue("pet")).toEqualTypeOf<{ type: string; age: number }>();
+    expectTypeOf(nested.getValue("pet.age")).toEqualTypeOf<number>();
+    expectTypeOf(nested.getValue("owners.1.name")).toEqualTypeOf<string>();
+    expectTypeOf<FormValue<Form<{ id: number }>[]>>().toEqualTypeOf<{ id: number }[]>();
+    expect(nested.getValue("owners.1.name")).toBe("Grace");
+  });
+});
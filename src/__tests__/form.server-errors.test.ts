@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { Validators } from "../form";
+import { formGroup } from "../form/functional";
+import { Order, orderItem, orderTemplate } from "../test/form-test-utils";
+
+const order = () =>
+  formGroup<Order>(
+    orderTemplate({ items: [orderItem("Pen"), orderItem("Ink", 2), orderItem("Pad", 3)] }),
+  );
+
+describe("Form - server errors", () => {
+  it("routes errors by path into nested forms and form-array items", () => {
+    const form = order();
+    const address = () => form.controls.address.value;
+    const items = () => form.controls.items.value;
+
+    form.setServerErrors({
+      "address.zip": "Unknown ZIP code.",
+      "items[2].qty": { code: "stock", message: "Only {left} left.", params: { left: 3 } },
+      email: ["Email is already registered.", { code: "blocked" }],
+    });
+
+    expect(form.valid).toBe(false);
+    expect(address().controls.zip.valid).toBe(false);
+    expect(address().controls.zip.messages).toEqual(["Unknown ZIP code."]);
+    expect(items()[2]!.controls.qty.messages).toEqual(["Only 3 left."]);
+    expect(items()[1]!.valid).toBe(true);
+    expect(form.controls.email.hasError("server")).toBe(true);
+    expect(form.controls.email.hasError("blocked")).toBe(true);
+    expect(Object.keys(form.errors)).toEqual(["email", "address.zip", "items.2.qty"]);
+    expect(form.isValid("items.2")).toBe(false);
+    expect(form.getError("stock", "items.2.qty")?.params).toEqual({ left: 3 });
+  });
+
+  it("clears a control's server errors when its value changes", () => {
+    const form = order();
+    const address = () => form.controls.address.value;
+    form.setServerErrors({ "address.zip": "Unknown ZIP code.", email: "Taken." });
+
+    address().controls.zip.value = "54321";
+    expect(address().controls.zip.valid).toBe(true);
+    expect(address().controls.zip.errors).toEqual({});
+    expect(form.controls.email.valid).toBe(false);
+    expect(form.isValid("address")).toBe(true);
+
+    form.controls.email.value = "grace@example.com";
+    expect(form.valid).toBe(true);
+  });
+
+  it("keeps server errors across re-validation until the value changes", () => {
+    const form = formGroup(
+      { email: ["ada@example.com", [Validators.required]] },
+      { updateOn: "blur" },
+    );
+    form.setServerErrors({ email: "Taken." });
+
+    expect(form.validate()).toBe(false);
+    form.controls.email.markAsBlurred();
+    expect(form.controls.email.messages).toEqual(["Taken."]);
+
+    form.controls.email.value = "";
+    expect(form.controls.email.errors).toEqual({});
+    expect(form.controls.email.valid).toBe(true);
+    form.controls.email.markAsBlurred();
+    expect(form.controls.email.hasError("required")).toBe(true);
+  });
+
+  it("stores errors for forms as form-level errors", () => {
+    const form = order();
+    const address = () => form.controls.address.value;
+
+    form.setServerErrors({
+      "": "The order could not be placed.",
+      address: { code: "undeliverable", message: "We do not ship there." },
+      "items.1": "Discontinued.",
+    });
+
+    expect(form.valid).toBe(false);
+    expect(form.getError("server")?.message).toBe("The order could not be placed.");
+    expect(address().valid).toBe(false);
+    expect(form.hasError("undeliverable", "address")).toBe(true);
+    expect(form.hasError("server", "items.1")).toBe(true);
+
+    address().controls.street.value = "Side St";
+    expect(address().valid).toBe(true);
+    expect(form.hasError("undeliverable", "address")).toBe(false);
+  });
+
+  it("keeps form-level errors when nothing but touched or readonly state changes", () => {
+    const form = order();
+    const address = () => form.controls.address.value;
+    form.setServerErrors({
+      "": "The order could not be placed.",
+      address: { code: "undeliverable", message: "We do not ship there." },
+    });
+
+    address().controls.zip.markAsTouched();
+    form.readonly = true;
+    form.readonly = false;
+
+    expect(form.getError("server")?.message).toBe("The order could not be placed.");
+    expect(form.hasError("undeliverable", "address")).toBe(true);
+
+    address().controls.zip.value = "54321";
+    expect(form.hasError("server")).toBe(false);
+    expect(form.hasError("undeliverable", "address")).toBe(false);
+  });
+
+  it("replaces earlier server errors and keeps errors for unknown paths on the form", () => {
+    const form = order();
+    form.setServerErrors({ email: "Taken." });
+    form.setServerErrors({ "payment.card": "Declined." });
+
+    expect(form.controls.email.valid).toBe(true);
+    expect(form.getError("server")?.message).toBe("Declined.");
+
+    form.setServerErrors({});
+    expect(form.valid).toBe(true);
+    expect(form.errors).toEqual({});
+  });
+});
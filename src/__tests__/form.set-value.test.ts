@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { Form } from "../form";
+import { formGroup } from "../form/functional";
+import { Order, orderTemplate } from "../test/form-test-utils";
+
+const order = () => formGroup<Order & { tags: string[] }>({ ...orderTemplate(), tags: [["new"], []] });
+
+describe("Form - setValue(value)", () => {
+  it("replaces every control, nested forms included", () => {
+    const form = order();
+
+    form.setValue({
+      email: "grace@example.com",
+      address: { street: "Side St", zip: "54321" },
+      items: [
+        { name: "Pencil", qty: 3 },
+        { name: "Eraser", qty: 1 },
+      ],
+      tags: ["sale", "gift"],
+    });
+
+    expect(form.build()).toEqual({
+      email: "grace@example.com",
+      address: { street: "Side St", zip: "54321" },
+      items: [
+        { name: "Pencil", qty: 3 },
+        { name: "Eraser", qty: 1 },
+      ],
+      tags: ["sale", "gift"],
+    });
+    expect(form.controls.address.value.controls.zip.dirty).toBe(true);
+    expect(form.controls.email.dirty).toBe(true);
+  });
+
+  it("adds and removes form-array items to match the incoming data", () => {
+    const form = order();
+    const value = form.build();
+
+    form.setValue({
+      ...value,
+      items: [...value.items, { name: "Pad", qty: 5 }],
+    });
+    const items = form.controls.items.value;
+    expect(items).toHaveLength(3);
+    expect(items[2]!.controls.name.value).toBe("Pad");
+    expect(items[2]!.valid).toBe(false);
+    expect(form.isValid()).toBe(false);
+
+    items[2]!.controls.qty.value = 2;
+    expect(form.isValid()).toBe(true);
+    expect(form.build().items[2]).toEqual({ name: "Pad", qty: 2 });
+
+    form.setValue({ ...value, items: [{ name: "Pen", qty: 1 }] });
+    expect(form.controls.items.value).toHaveLength(1);
+    expect(form.build().items).toEqual([{ name: "Pen", qty: 1 }]);
+  });
+
+  it("creates items of an emptied form array from the forms it was created with", () => {
+    const form = order();
+    const value = form.build();
+
+    form.setValue({ ...value, items: [] });
+    expect(form.build().items).toEqual([]);
+
+    form.setValue({ ...value, items: [{ name: "Clip", qty: 9 }] });
+    expect(form.build().items).toEqual([{ name: "Clip", qty: 9 }]);
+    expect(form.controls.items.value[0]!.controls.qty.hasError("max")).toBe(true);
+  });
+
+  it("throws on missing and unknown keys without changing the form", () => {
+    const form = order();
+    const before = form.build();
+
+    expect(() =>
+      form.setValue({
+        email: "grace@example.com",
+        address: { street: "Side St", country: "AT" },
+        items: [{ name: "Pen" }],
+        coupon: "SAVE10",
+      } as any),
+    ).toThrow(
+      "Cannot set form value: missing value for address.zip; no control found for address.country; " +
+        "missing value for items.0.qty; missing value for tags; no control found for coupon",
+    );
+    expect(form.build()).toEqual(before);
+    expect(form.controls.email.dirty).toBe(false);
+    expect(form.controls.address.value.controls.street.dirty).toBe(false);
+  });
+
+  it("throws when nested forms or form arrays get values of the wrong kind", () => {
+    const form = order();
+
+    expect(() =>
+      form.setValue({ ...form.build(), address: "Main St", items: { name: "Pen" } } as any),
+    ).toThrow("expected an object for address; expected an array for items");
+    expect(() => form.setValue(null as any)).toThrow("expected an object for the form");
+  });
+
+  it("replaces plain arrays of objects that started empty", () => {
+    const form = formGroup<{ pts: { x: number }[] }>({ pts: [] });
+
+    form.setValue({ pts: [{ x: 1 }] });
+    expect(form.build()).toEqual({ pts: [{ x: 1 }] });
+    expect(form.controls.pts.value).toEqual([{ x: 1 }]);
+  });
+
+  it("creates items of an emptied form array from the forms it held", () => {
+    const form = formGroup<{ items: Array<Form<{ name: string }>>; tags: string[] }>({
+      items: [formGroup({ name: "Pen" })],
+      tags: [],
+    });
+
+    form.controls.items.clear();
+    form.setValue({ items: [{ name: "Ink" }], tags: ["new"] });
+    expect(Form.isForm(form.controls.items.at(0))).toBe(true);
+    expect(form.build()).toEqual({ items: [{ name: "Ink" }], tags: ["new"] });
+  });
+
+  it("keeps path-based setValue", () => {
+    const form = order();
+
+    form.setValue("items.1.qty", 3);
+    form.setValue({ ...form.build(), email: "" }, { markAsDirty: false });
+
+    expect(form.build().items[1]).toEqual({ name: "Ink", qty: 3 });
+    expect(form.controls.email.hasError("required")).toBe(true);
+    expect(form.controls.email.dirty).toBe(false);
+    expect(Form.isForm(form.controls.items.value[1])).toBe(true);
+  });
+});
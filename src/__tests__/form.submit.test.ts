@@ -0,0 +1,203 @@
+import { describe, expect, it, vi } from "vitest";
+import { Form, Validators } from "../form";
+import { formGroup } from "../form/functional";
+import { delay } from "../test/form-test-utils";
+
+const signup = () =>
+  formGroup({
+    email: ["", [Validators.required]],
+    profile: formGroup({ name: "Ada" }),
+  });
+
+describe("Form - submit", () => {
+  it("marks controls touched and skips the handler when invalid", async () => {
+    const form = signup();
+    const handler = vi.fn();
+
+    await expect(form.submit(handler)).resolves.toBe(false);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(form.controls.email.touched).toBe(true);
+    const profile = form.controls.profile.value as Form<{ name: string }>;
+    expect(profile.controls.name.touched).toBe(true);
+    expect(form.touched).toBe(true);
+    expect(form.submitted).toBe(true);
+    expect(form.submitCount).toBe(1);
+    expect(form.submitting).toBe(false);
+  });
+
+  it("passes the built value to the handler and tracks submitting", async () => {
+    const form = signup();
+    form.controls.email.value = "ada@example.com";
+    let submittingDuringHandler = false;
+    let release!: () => void;
+    const handler = vi.fn(async () => {
+      submittingDuringHandler = form.submitting;
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    });
+
+    const submission = form.submit(handler);
+    expect(form.submitting).toBe(true);
+    expect(form.submit(handler)).toBe(submission);
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+    expect(handler).toHaveBeenCalledWith({
+      email: "ada@example.com",
+      profile: { name: "Ada" },
+    });
+    expect(submittingDuringHandler).toBe(true);
+    expect(form.submitted).toBe(false);
+
+    release();
+    await expect(submission).resolves.toBe(true);
+    expect(form.submitting).toBe(false);
+    expect(form.submitted).toBe(true);
+    expect(form.submitCount).toBe(1);
+  });
+
+  it("validates controls that only validate on submit, including async rules", async () => {
+    const form = formGroup(
+      {
+        username: [
+          "ada",
+          [
+            Validators.required,
+            async function usernameTaken(value: string) {
+              await delay(5);
+              return value !== "taken";
+            },
+          ],
+        ],
+      },
+      { updateOn: "submit" },
+    );
+    await form.whenSettled();
+    const handler = vi.fn();
+
+    form.controls.username.value = "taken";
+    expect(form.valid).toBe(true);
+
+    await expect(form.submit(handler)).resolves.toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+    expect(form.controls.username.hasError("usernameTaken")).toBe(true);
+
+    form.controls.username.value = "grace";
+    await expect(form.submit(handler)).resolves.toBe(true);
+    expect(handler).toHaveBeenCalledWith({ username: "grace" });
+    expect(form.submitCount).toBe(2);
+  });
+
+  it("skips the handler while a nested form or form-array item is invalid", async () => {
+    const form = formGroup({
+      email: ["ada@example.com"],
+      profile: formGroup({ name: ["", [Validators.required]] }),
+      pets: [formGroup({ kind: "Dog" })],
+    });
+    const handler = vi.fn();
+
+    await expect(form.submit(handler)).resolves.toBe(false);
+    expect(form.status).toBe("invalid");
+
+    form.controls.profile.value.controls.name.value = "Ada";
+    form.controls.pets.value[0]!.controls.kind.value = "";
+    form.controls.pets.value[0]!.addValidator(
+      function kindRequired(value: { kind: string }) {
+        return value.kind !== "";
+      },
+    );
+    await expect(form.submit(handler)).resolves.toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+
+    form.controls.pets.value[0]!.controls.kind.value = "Cat";
+    await expect(form.submit(handler)).resolves.toBe(true);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits for async validators of nested forms before calling the handler", async () => {
+    let resolveCheck!: (available: boolean) => void;
+    const form = formGroup({
+      account: formGroup({
+        username: [
+          "ada",
+          [
+            function usernameTaken(): Promise<boolean> {
+              return new Promise((resolve) => {
+                resolveCheck = resolve;
+              });
+            },
+          ],
+        ],
+      }),
+      items: [formGroup({ name: "Pen" })],
+    });
+    const handler = vi.fn();
+
+    const submission = form.submit(handler);
+    expect(form.status).toBe("pending");
+    await delay(5);
+    expect(handler).not.toHaveBeenCalled();
+
+    resolveCheck(false);
+    await expect(submission).resolves.toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+    expect(form.controls.account.value.controls.username.hasError("usernameTaken")).toBe(true);
+  });
+
+  it("settles nested forms and form-array items in whenSettled", async () => {
+    let resolveCheck!: (valid: boolean) => void;
+    const form = formGroup({
+      items: [
+        formGroup({
+          sku: [
+            "A-1",
+            [
+              function skuExists(): Promise<boolean> {
+                return new Promise((resolve) => {
+                  resolveCheck = resolve;
+                });
+              },
+            ],
+          ],
+        }),
+      ],
+    });
+
+    const settled = vi.fn();
+    void form.whenSettled().then(settled);
+    await delay(5);
+    expect(settled).not.toHaveBeenCalled();
+
+    resolveCheck(false);
+    await vi.waitFor(() => expect(settled).toHaveBeenCalledWith(false));
+  });
+
+  it("captures handler errors and clears them on the next submission", async () => {
+    const form = signup();
+    form.controls.email.value = "ada@example.com";
+    const failure = new Error("Network down");
+
+    await expect(
+      form.submit(async () => {
+        throw failure;
+      }),
+    ).resolves.toBe(false);
+    expect(form.submitError).toBe(failure);
+    expect(form.submitted).toBe(true);
+
+    await expect(form.submit(() => undefined)).resolves.toBe(true);
+    expect(form.submitError).toBeUndefined();
+    expect(form.submitCount).toBe(2);
+  });
+
+  it("resets the submission state with the form", async () => {
+    const form = signup();
+    await form.submit(() => undefined);
+
+    form.reset();
+    expect(form.submitted).toBe(false);
+    expect(form.submitCount).toBe(0);
+    expect(form.controls.email.touched).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { Validators } from "../form";
+import { formGroup } from "../form/functional";
+import { Address, delay, Order, orderItem, orderTemplate } from "../test/form-test-utils";
+
+const checkout = () =>
+  formGroup<Order & { terms: boolean }>(
+    {
+      ...orderTemplate({
+        address: formGroup<Address>({
+          street: ["Main St", [Validators.required]],
+          zip: ["12", [Validators.pattern(/^\d{5}$/)]],
+        }),
+        items: [orderItem("Pen"), orderItem("", 5)],
+      }),
+      terms: [false, [Validators.requiredTrue]],
+    },
+    { updateOn: "submit" },
+  );
+
+describe("Form - subtree validation", () => {
+  it("validates only the given paths and reports the failed ones", () => {
+    const form = checkout();
+    form.controls.email.value = "";
+
+    expect(form.validate(["address"])).toEqual({
+      valid: false,
+      pending: false,
+      failed: ["address.zip"],
+    });
+    expect(form.controls.email.errors).toEqual({});
+
+    expect(form.validate(["items[1].qty", "email"])).toEqual({
+      valid: false,
+      pending: false,
+      failed: ["items.1.qty", "email"],
+    });
+    expect(form.controls.items.at(1)!.controls.qty.hasError("max")).toBe(true);
+  });
+
+  it("validates form-array items and the whole tree", () => {
+    const form = checkout();
+    form.controls.email.value = "";
+
+    expect(form.validate(["items.0"]).valid).toBe(true);
+    expect(form.validate(["items"]).failed).toEqual(["items.1.name", "items.1.qty"]);
+    expect(form.validate([""]).failed).toEqual([
+      "email",
+      "address.zip",
+      "items.1.name",
+      "items.1.qty",
+      "terms",
+    ]);
+  });
+
+  it("checks subtrees with isValid without re-running validators", () => {
+    const form = checkout();
+    form.validate();
+
+    expect(form.isValid("address.street")).toBe(true);
+    expect(form.isValid("address")).toBe(false);
+    expect(form.isValid("items.0")).toBe(true);
+    expect(form.isValid("items")).toBe(false);
+    expect(form.isValid()).toBe(false);
+
+    const address = () => form.controls.address.value;
+    address().controls.zip.value = "12345";
+    expect(form.isValid("address")).toBe(false);
+    form.validate(["address"]);
+    expect(form.isValid("address")).toBe(true);
+  });
+
+  it("reports form-level failures under the form's path", () => {
+    const form = formGroup({
+      range: formGroup(
+        { start: 5, end: 1 },
+        {
+          validators: [
+            (value: { start: number; end: number }) => ({
+              valid: value.end >= value.start,
+              code: "order",
+            }),
+          ],
+        },
+      ),
+    });
+
+    expect(form.validate(["range"]).failed).toEqual(["range"]);
+    expect(form.isValid("range.start")).toBe(true);
+  });
+
+  it("reports unknown paths as failed", () => {
+    const form = checkout();
+
+    expect(form.validate(["address.country", "items.5", "terms.x"])).toEqual({
+      valid: false,
+      pending: false,
+      failed: ["address.country", "items.5", "terms.x"],
+    });
+    expect(form.isValid("nope")).toBe(false);
+  });
+
+  it("reports pending async validators", async () => {
+    const form = formGroup({
+      username: [
+        "taken",
+        [
+          async (value: string) => {
+            await delay(5);
+            return { valid: value !== "taken", code: "usernameTaken" };
+          },
+        ],
+      ],
+    });
+
+    expect(form.validate(["username"])).toEqual({
+      valid: false,
+      pending: true,
+      failed: [],
+    });
+    await form.whenSettled();
+    expect(form.validate(["username"]).pending).toBe(true);
+    await form.whenSettled();
+    expect(form.isValid("username")).toBe(false);
+  });
+});
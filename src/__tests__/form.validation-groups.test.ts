@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { Form, Validators } from "../form";
+import { formGroup } from "../form/functional";
+import { ValidatorFn } from "../types/validator.types";
+import { delay } from "../test/form-test-utils";
+
+type Article = { title: string; body: string };
+
+const slugIsUnique: ValidatorFn<string> = async (value) => {
+  await delay(5);
+  return { valid: value !== "taken", code: "slugTaken" };
+};
+
+const article = () =>
+  formGroup<Article>({
+    title: [
+      "",
+      [Validators.maxLength(10), Validators.group("publish", Validators.required)],
+    ],
+    body: ["abc", [Validators.group(["publish", "review"], Validators.minLength(5))]],
+  });
+
+describe("Form - validation groups", () => {
+  it("only counts ungrouped validators until a group is activated", () => {
+    const form = article();
+
+    expect(form.activeGroups).toEqual([]);
+    expect(form.valid).toBe(true);
+    expect(form.controls.title.errors).toEqual({});
+    expect(form.controls.title.lastValidation).toHaveLength(2);
+
+    form.controls.title.value = "Far too long";
+    expect(form.valid).toBe(false);
+    expect(Object.keys(form.controls.title.errors)).toEqual(["maxLength"]);
+  });
+
+  it("answers group-scoped validity queries without activating the group", () => {
+    const form = article();
+
+    expect(form.controls.title.validFor("publish")).toBe(false);
+    expect(form.controls.body.validFor("review")).toBe(false);
+    expect(form.controls.body.validFor("other")).toBe(true);
+    expect(form.validFor("publish")).toBe(false);
+    expect(form.validFor(["review"])).toBe(false);
+    expect(form.valid).toBe(true);
+
+    form.controls.title.value = "Hello";
+    form.controls.body.value = "Some text";
+    expect(form.validFor("publish")).toBe(true);
+  });
+
+  it("activates groups through validate and keeps them for later changes", () => {
+    const form = article();
+
+    expect(form.validate({ groups: ["publish"] })).toBe(false);
+    expect(form.activeGroups).toEqual(["publish"]);
+    expect(form.controls.title.activeGroups).toEqual(["publish"]);
+    expect(form.errors).toEqual({
+      title: { required: expect.objectContaining({ code: "required" }) },
+      body: { minLength: expect.objectContaining({ code: "minLength" }) },
+    });
+    expect(form.controls.title.messages).toEqual(["This field is required."]);
+
+    form.controls.title.value = "Hello";
+    form.controls.body.value = "abc";
+    expect(form.controls.title.valid).toBe(true);
+    expect(form.valid).toBe(false);
+
+    form.controls.body.value = "Some text";
+    expect(form.valid).toBe(true);
+
+    expect(form.validate({ groups: [] })).toBe(true);
+    form.controls.title.value = "";
+    expect(form.valid).toBe(true);
+  });
+
+  it("supports async grouped validators", async () => {
+    const form = formGroup({
+      slug: ["taken", [Validators.group("submit", slugIsUnique)]],
+    });
+
+    await expect(form.whenSettled()).resolves.toBe(true);
+    expect(form.controls.slug.validFor("submit")).toBe(false);
+
+    form.validate({ groups: ["submit"] });
+    expect(form.pending).toBe(true);
+    await expect(form.whenSettled()).resolves.toBe(false);
+    expect(form.controls.slug.hasError("slugTaken")).toBe(true);
+  });
+
+  it("applies to form-level validators and nested forms", () => {
+    const datesInOrder: ValidatorFn<{ start: number; end: number }> = (value) => ({
+      valid: value.end >= value.start,
+      code: "order",
+    });
+    const form = formGroup({
+      name: ["", [Validators.group("publish", Validators.required)]],
+      range: formGroup(
+        { start: 5, end: 1 },
+        { validators: [Validators.group("publish", datesInOrder)] },
+      ),
+    });
+    const range = () => form.controls.range.value as Form<{ start: number; end: number }>;
+
+    expect(range().valid).toBe(true);
+    expect(range().validFor("publish")).toBe(false);
+
+    form.validate({ groups: ["publish"] });
+    expect(range().activeGroups).toEqual(["publish"]);
+    expect(range().valid).toBe(false);
+    expect(form.hasError("order", "range")).toBe(true);
+    expect(form.hasError("required", "name")).toBe(true);
+  });
+});
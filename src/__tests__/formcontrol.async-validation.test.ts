@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { formGroup } from "../form/functional";
+import { Validators } from "../form";
+import { ValidatorContext } from "../types/validator.types";
+import { delay } from "../test/form-test-utils";
+
+const TAKEN = ["admin", "root"];
+
+const usernameAvailable = async (value: string) => {
+  await delay(10);
+  return {
+    valid: !TAKEN.includes(value),
+    message: "Username is taken.",
+  };
+};
+
+describe("FormControl - async validation", () => {
+  it("is pending (and not valid) until the async validator settles", async () => {
+    const form = formGroup({
+      username: ["john", [Validators.required, usernameAvailable]],
+    });
+
+    expect(form.controls.username.pending).toBe(true);
+    expect(form.controls.username.valid).toBe(false);
+    expect(form.pending).toBe(true);
+    expect(form.valid).toBe(false);
+
+    await expect(form.whenSettled()).resolves.toBe(true);
+
+    expect(form.controls.username.pending).toBe(false);
+    expect(form.controls.username.valid).toBe(true);
+    expect(form.pending).toBe(false);
+    expect(form.valid).toBe(true);
+
+    form.controls.username.value = "admin";
+    await form.whenSettled();
+
+    expect(form.controls.username.valid).toBe(false);
+    expect(
+      form.controls.username.invalids.find((inv) => inv.fn === usernameAvailable)
+        ?.result.message,
+    ).toBe("Username is taken.");
+    expect(form.valid).toBe(false);
+  });
+
+  it("skips async validators while sync validators fail", async () => {
+    let calls = 0;
+    const form = formGroup({
+      username: [
+        "",
+        [
+          Validators.required,
+          async () => {
+            calls++;
+            return true;
+          },
+        ],
+      ],
+    });
+
+    expect(form.controls.username.pending).toBe(false);
+    expect(form.controls.username.valid).toBe(false);
+    await form.whenSettled();
+    expect(calls).toBe(0);
+  });
+
+  it("discards stale runs (latest wins) and aborts their signal", async () => {
+    const signals: AbortSignal[] = [];
+    const slowFirst = (value: string, ctx?: ValidatorContext) => {
+      signals.push(ctx!.signal!);
+      return delay(value === "a" ? 30 : 5).then(() => value !== "a");
+    };
+    const form = formGroup({ name: ["x", [slowFirst]] });
+    await form.whenSettled();
+
+    form.controls.name.value = "a";
+    form.controls.name.value = "ab";
+
+    await expect(form.controls.name.whenSettled()).resolves.toBe(true);
+    await delay(40);
+
+    expect(form.controls.name.valid).toBe(true);
+    expect(form.controls.name.pending).toBe(false);
+    expect(signals.at(-2)!.aborted).toBe(true);
+    expect(signals.at(-1)!.aborted).toBe(false);
+  });
+
+  it("debounces async validators per control", async () => {
+    const seen: string[] = [];
+    const check = async (value: string) => {
+      seen.push(value);
+      return true;
+    };
+    const form = formGroup({
+      search: ["", [check], { debounceMs: 20 }],
+    });
+    await form.whenSettled();
+    seen.length = 0;
+
+    form.controls.search.value = "r";
+    form.controls.search.value = "re";
+    form.controls.search.value = "rea";
+    expect(form.controls.search.pending).toBe(true);
+
+    await expect(form.whenSettled()).resolves.toBe(true);
+    expect(seen).toEqual(["rea"]);
+  });
+
+  it("treats a rejected validator as invalid", async () => {
+    const form = formGroup({
+      name: [
+        "x",
+        [
+          async () => {
+            throw new Error("Service unavailable");
+          },
+        ],
+      ],
+    });
+
+    await expect(form.whenSettled()).resolves.toBe(false);
+    expect(form.controls.name.invalids[0]?.result).toEqual({
+      valid: false,
+      message: "Service unavailable",
+    });
+  });
+});
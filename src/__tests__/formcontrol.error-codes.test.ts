@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { Validators } from "../form";
+import { formGroup } from "../form/functional";
+
+describe("Validation error codes", () => {
+  it("exposes an errors record keyed by code on FormControl", () => {
+    const form = formGroup({
+      name: ["J", [Validators.required, Validators.minLength(3)]],
+    });
+    const name = form.controls.name;
+
+    expect(name.errors).toEqual({
+      minLength: {
+        code: "minLength",
+        message: "Must be at least 3 characters.",
+        params: { required: 3, actual: 1 },
+      },
+    });
+    expect(name.hasError("minLength")).toBe(true);
+    expect(name.hasError("required")).toBe(false);
+    expect(name.getError("minLength")?.params?.required).toBe(3);
+
+    name.value = "";
+    expect(Object.keys(name.errors)).toEqual(["required"]);
+
+    name.value = "John";
+    expect(name.errors).toEqual({});
+    expect(name.getError("minLength")).toBeUndefined();
+    expect(name.hasError("toString")).toBe(false);
+  });
+
+  it("falls back to the validator name, then to 'invalid'", () => {
+    function noSpaces(value: string) {
+      return !value.includes(" ");
+    }
+    const form = formGroup({
+      username: ["a b", [noSpaces, (value: string) => value.length > 5]],
+    });
+
+    expect(Object.keys(form.controls.username.errors)).toEqual([
+      "noSpaces",
+      "invalid",
+    ]);
+  });
+
+  it("aggregates errors by path on Form, including nested forms and form-level errors", () => {
+    const form = formGroup(
+      {
+        name: ["", [Validators.required]],
+        address: formGroup({ zip: ["12a", [Validators.pattern("[0-9]{5}")]] }),
+        items: [
+          formGroup({ qty: [0, [Validators.min(1)]] }),
+          formGroup({ qty: [2, [Validators.min(1)]] }),
+        ],
+      },
+      {
+        validators: [
+          (value: any) => ({
+            valid: value.items.length > 2,
+            code: "tooFewItems",
+            message: "Add at least {count} items.",
+            params: { count: 3 },
+          }),
+        ],
+      },
+    );
+
+    expect(Object.keys(form.errors).sort()).toEqual([
+      "",
+      "address.zip",
+      "items.0.qty",
+      "name",
+    ]);
+    expect(form.hasError("tooFewItems")).toBe(true);
+    expect(form.getError("tooFewItems")?.message).toBe("Add at least 3 items.");
+    expect(form.hasError("pattern", "address.zip")).toBe(true);
+    expect(form.getError("min", "items.0.qty")?.params).toEqual({
+      min: 1,
+      actual: 0,
+    });
+    expect(form.hasError("min", "items.1.qty")).toBe(false);
+
+    form.controls.name.value = "John";
+    expect(form.hasError("required", "name")).toBe(false);
+    expect(form.errors.name).toBeUndefined();
+  });
+});
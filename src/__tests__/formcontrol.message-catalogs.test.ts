@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Messages, Validators } from "../form";
+import { formGroup } from "../form/functional";
+
+describe("Validation message catalogs", () => {
+  afterEach(() => {
+    Messages.setLocale("en");
+  });
+
+  it("resolves messages by error code and the global locale", () => {
+    Messages.register("fr", {
+      required: "Ce champ est obligatoire.",
+      minLength: "Au moins {required} caractères.",
+    });
+    const form = formGroup({
+      name: ["", [Validators.required]],
+      city: ["P", [Validators.minLength(3)]],
+    });
+
+    expect(form.controls.name.messages).toEqual(["This field is required."]);
+
+    Messages.setLocale("fr");
+    expect(Messages.getLocale()).toBe("fr");
+    expect(form.controls.name.messages).toEqual(["Ce champ est obligatoire."]);
+    expect(form.controls.city.getError("minLength")?.message).toBe(
+      "Au moins 3 caractères.",
+    );
+  });
+
+  it("falls back to the base language and then to the validator message", () => {
+    Messages.register("es", { required: "Campo obligatorio." });
+    Messages.setLocale("es-MX");
+    const form = formGroup({
+      name: ["", [Validators.required]],
+      email: ["nope", [Validators.email]],
+    });
+
+    expect(form.controls.name.messages).toEqual(["Campo obligatorio."]);
+    expect(form.controls.email.messages).toEqual([
+      "Must be a valid email address.",
+    ]);
+  });
+
+  it("prefers form catalogs and re-renders on locale change without re-running validators", () => {
+    Messages.register("de", { required: "Global: erforderlich." });
+    const validator = vi.fn(Validators.required);
+    const form = formGroup(
+      {
+        name: ["", [validator]],
+        address: formGroup({ street: ["", [Validators.required]] }),
+      },
+      {
+        messages: {
+          de: { required: "Bitte {key} angeben." },
+          nl: { required: ({ key }) => `${String(key)} is verplicht.` },
+        },
+      },
+    );
+    const calls = validator.mock.calls.length;
+
+    expect(form.locale).toBe("en");
+    form.locale = "de";
+    expect(form.controls.name.messages).toEqual(["Bitte name angeben."]);
+    expect(
+      form.controls.address.value.controls.street.messages,
+    ).toEqual(["Bitte street angeben."]);
+
+    form.locale = "nl";
+    expect(form.controls.name.messages).toEqual(["name is verplicht."]);
+
+    form.registerMessages("nl", { required: "Verplicht." });
+    expect(form.controls.name.messages).toEqual(["Verplicht."]);
+    expect(validator.mock.calls.length).toBe(calls);
+  });
+
+  it("localizes form-level validator messages", () => {
+    const form = formGroup(
+      { password: "a", confirm: "b" },
+      {
+        locale: "de",
+        messages: { de: { mismatch: "Passwörter stimmen nicht überein." } },
+        validators: [
+          (value: { password: string; confirm: string }) => ({
+            valid: value.password === value.confirm,
+            code: "mismatch",
+            message: "Passwords must match.",
+          }),
+        ],
+      },
+    );
+
+    expect(form.getError("mismatch")?.message).toBe(
+      "Passwörter stimmen nicht überein.",
+    );
+    form.locale = "en";
+    expect((form.invalids[0] as { message?: string }).message).toBe(
+      "Passwords must match.",
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { Validators } from "../form";
+import { formGroup } from "../form/functional";
+import { VALUE_SYNTAX } from "../types/validator.types";
+import { interpolateMessage } from "../form/util/message.util";
+
+describe("Validation message templates", () => {
+  it("interpolates the value, key and params", () => {
+    expect(
+      interpolateMessage(
+        `{key} must be at least {required} characters (got "${VALUE_SYNTAX}").`,
+        { key: "name", value: "Jo", params: { required: 3 } },
+      ),
+    ).toBe('name must be at least 3 characters (got "Jo").');
+
+    expect(interpolateMessage("{value} / {unknown}", { value: [1, 2] })).toBe(
+      "1, 2 / {unknown}",
+    );
+    expect(interpolateMessage(undefined, { value: 1 })).toBeUndefined();
+  });
+
+  it("never re-interpolates substituted values", () => {
+    expect(
+      interpolateMessage(`${VALUE_SYNTAX} ({required})`, {
+        value: "{required}",
+        params: { required: 3 },
+      }),
+    ).toBe("{required} (3)");
+  });
+
+  it("exposes rendered messages on FormControl.invalids and messages", () => {
+    const form = formGroup({
+      username: [
+        "ab",
+        [
+          Validators.minLength(3),
+          (value: string) => ({
+            valid: !value.includes(" "),
+            message: `"${VALUE_SYNTAX}" is not a valid {key}.`,
+          }),
+        ],
+      ],
+    });
+
+    const [lengthResult] = form.controls.username.invalids;
+    expect(lengthResult?.result.message).toBe(
+      "Must be at least {required} characters.",
+    );
+    expect(lengthResult?.message).toBe("Must be at least 3 characters.");
+
+    form.controls.username.value = "a b";
+    expect(form.controls.username.messages).toEqual([
+      '"a b" is not a valid username.',
+    ]);
+
+    form.controls.username.value = "abc";
+    expect(form.controls.username.messages).toEqual([]);
+  });
+
+  it("renders form-level validator messages with the built value", () => {
+    const form = formGroup(
+      { min: 5, max: 3 },
+      {
+        validators: [
+          (value: { min: number; max: number }) => ({
+            valid: value.max >= value.min,
+            message: "Max must be at least {min}.",
+            params: { min: value.min },
+          }),
+        ],
+      },
+    );
+
+    expect(form.valid).toBe(false);
+    expect((form.invalids[0] as { message?: string }).message).toBe(
+      "Max must be at least 5.",
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+import { Validators } from "../form";
+import { formGroup } from "../form/functional";
+
+describe("FormControl - updateOn", () => {
+  it("validates on every value write by default", () => {
+    const form = formGroup({ name: ["", [Validators.required]] });
+    expect(form.controls.name.updateOn).toBe("change");
+
+    form.controls.name.value = "John";
+    expect(form.controls.name.valid).toBe(true);
+  });
+
+  it("with 'blur', only re-validates when the control is blurred", () => {
+    const validator = vi.fn(Validators.minLength(3));
+    const form = formGroup({ name: ["John", [validator], { updateOn: "blur" }] });
+    const name = form.controls.name;
+    const calls = validator.mock.calls.length;
+
+    name.value = "J";
+    expect(name.valid).toBe(true);
+    expect(name.value).toBe("J");
+    expect(validator.mock.calls.length).toBe(calls);
+
+    name.markAsBlurred();
+    expect(name.touched).toBe(true);
+    expect(name.valid).toBe(false);
+    expect(form.valid).toBe(false);
+    expect(name.hasError("minLength")).toBe(true);
+  });
+
+  it("inherits updateOn from the form and nested forms, unless the control overrides it", () => {
+    const form = formGroup(
+      {
+        name: ["ok", [Validators.required]],
+        email: ["a@b.co", [Validators.email], { updateOn: "change" }],
+        address: formGroup({ city: ["Paris", [Validators.required]] }),
+      },
+      { updateOn: "submit" },
+    );
+    const city = () => form.controls.address.value.controls.city;
+
+    expect(form.updateOn).toBe("submit");
+    expect(form.controls.name.updateOn).toBe("submit");
+    expect(form.controls.email.updateOn).toBe("change");
+    expect(city().updateOn).toBe("submit");
+
+    form.controls.name.value = "";
+    form.controls.name.markAsBlurred();
+    city().value = "";
+    expect(form.controls.name.valid).toBe(true);
+    expect(city().valid).toBe(true);
+
+    form.controls.email.value = "nope";
+    expect(form.controls.email.valid).toBe(false);
+  });
+
+  it("validate() re-runs control, nested and form-level validators regardless of updateOn", () => {
+    const matches = vi.fn((value: any) => ({
+      valid: value.password === value.confirm,
+      code: "mismatch",
+    }));
+    const form = formGroup(
+      {
+        password: ["secret", [Validators.required]],
+        confirm: ["secret"],
+        address: formGroup({ city: ["Paris", [Validators.required]] }),
+      },
+      { updateOn: "submit", validators: [matches] },
+    );
+    const city = () => form.controls.address.value.controls.city;
+
+    form.controls.confirm.value = "other";
+    city().value = "";
+    expect(form.valid).toBe(true);
+    const calls = matches.mock.calls.length;
+
+    expect(form.validate()).toBe(false);
+    expect(matches.mock.calls.length).toBeGreaterThan(calls);
+    expect(form.hasError("mismatch")).toBe(true);
+    expect(city().hasError("required")).toBe(true);
+
+    form.controls.confirm.value = "secret";
+    expect(form.hasError("mismatch")).toBe(true);
+    expect(form.controls.confirm.validate()).toBe(true);
+    expect(form.hasError("mismatch")).toBe(false);
+  });
+});
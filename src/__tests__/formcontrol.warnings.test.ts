@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { Validators } from "../form";
+import { formGroup } from "../form/functional";
+
+const unusuallyLarge = (value: number) => ({
+  valid: value <= 10000,
+  severity: "warning" as const,
+  code: "unusuallyLarge",
+  message: "{value} is unusually large.",
+});
+
+describe("Validation warnings", () => {
+  it("exposes warnings on FormControl without affecting valid", () => {
+    const form = formGroup({
+      amount: [50000, [Validators.required, unusuallyLarge]],
+    });
+    const amount = form.controls.amount;
+
+    expect(amount.valid).toBe(true);
+    expect(form.valid).toBe(true);
+    expect(amount.warnings.map(({ message }) => message)).toEqual([
+      "50000 is unusually large.",
+    ]);
+    expect(amount.messages).toEqual([]);
+    expect(amount.errors).toEqual({});
+
+    form.controls.amount.value = 500;
+    expect(form.controls.amount.warnings).toEqual([]);
+  });
+
+  it("keeps errors and warnings apart when both fail", () => {
+    const form = formGroup({
+      amount: [20000, [Validators.max(15000), unusuallyLarge]],
+    });
+
+    expect(form.controls.amount.valid).toBe(false);
+    expect(form.controls.amount.messages).toEqual(["Must be at most 15000."]);
+    expect(form.controls.amount.warnings).toHaveLength(1);
+    expect(Object.keys(form.controls.amount.errors)).toEqual(["max"]);
+  });
+
+  it("downgrades any validator with Validators.warn, including async ones", async () => {
+    const form = formGroup({
+      amount: [50000, [Validators.warn(Validators.max(10000))]],
+      code: [
+        "X",
+        [Validators.warn(async (value: string) => value.length > 2)],
+      ],
+    });
+
+    expect(form.controls.amount.valid).toBe(true);
+    expect(form.controls.amount.warnings[0]?.result).toMatchObject({
+      code: "max",
+      severity: "warning",
+    });
+
+    await expect(form.whenSettled()).resolves.toBe(true);
+    expect(form.controls.code.valid).toBe(true);
+    expect(form.controls.code.warnings).toHaveLength(1);
+  });
+
+  it("lists control and form-level warnings on Form", () => {
+    const form = formGroup(
+      { amount: [50000, [unusuallyLarge]], note: "" },
+      {
+        validators: [
+          (value: { amount: number; note: string }) => ({
+            valid: value.amount < 10000 || value.note !== "",
+            severity: "warning",
+            message: "Large amounts usually need a note.",
+          }),
+        ],
+      },
+    );
+
+    expect(form.valid).toBe(true);
+    expect(form.invalids).toEqual([]);
+    expect(form.warnings).toHaveLength(2);
+    expect(form.warnings[0]).toBe(form.controls.amount);
+    expect((form.warnings[1] as { message?: string }).message).toBe(
+      "Large amounts usually need a note.",
+    );
+
+    form.controls.note.value = "Annual bonus";
+    expect(form.warnings).toHaveLength(1);
+  });
+});
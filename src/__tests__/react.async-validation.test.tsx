@@ -0,0 +1,65 @@
+/**
+ * React Async Validation Test Suite
+ *
+ * Tests that async validators re-render the component when they settle,
+ * and that the pending flag is reflected in the UI.
+ */
+
+import { describe, expect, it } from "vitest";
+import { render, waitFor, act } from "@testing-library/react";
+import { Form, Validators } from "../form";
+import { BaseFormComponent } from "../test/react-test-utils";
+import { useFormGroup } from "../react";
+
+const usernameAvailable = (value: string) =>
+  new Promise<{ valid: boolean; message: string }>((resolve) =>
+    setTimeout(
+      () => resolve({ valid: value !== "admin", message: "Username is taken." }),
+      10,
+    ),
+  );
+
+describe("Async validators in React", () => {
+  it("re-renders with pending, valid and messages once the check finishes", async () => {
+    let formRef: Form<any> | undefined;
+
+    const Status = () => {
+      const { form } = useFormGroup<{ username: string }>();
+      const control = form?.controls.username;
+      const message = control?.invalids.find((inv) => !inv.result.valid)?.result
+        .message;
+      return (
+        <span data-testid="status">
+          {control?.pending ? "checking" : control?.valid ? "ok" : message}
+        </span>
+      );
+    };
+
+    const { getByTestId } = render(
+      <BaseFormComponent
+        schema={{
+          username: ["john", [Validators.required, usernameAvailable]],
+        }}
+        formRef={(form) => (formRef = form)}
+      >
+        <Status />
+      </BaseFormComponent>,
+    );
+
+    await waitFor(() => expect(formRef).toBeDefined());
+    await waitFor(() => expect(getByTestId("status").textContent).toBe("ok"));
+
+    await act(async () => {
+      formRef!.controls.username.value = "admin";
+    });
+
+    expect(getByTestId("status").textContent).toBe("checking");
+    expect(formRef!.pending).toBe(true);
+
+    await waitFor(() =>
+      expect(getByTestId("status").textContent).toBe("Username is taken."),
+    );
+    expect(formRef!.pending).toBe(false);
+    expect(formRef!.valid).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import React, { useEffect } from 'react';
+import { Validators } from '../form';
+import { formGroup } from '../form/functional';
+import { useForm } from '../react';
+import type { StatusChangeEvent, ValueChangeEvent } from '../types/control.types';
+
+const Profile: React.FC<{
+  onValue: (event: ValueChangeEvent) => void;
+  onStatus: (event: StatusChangeEvent) => void;
+}> = ({ onValue, onStatus }) => {
+  const { form } = useForm({
+    name: ['', [Validators.required]],
+    pets: [formGroup({ kind: 'Dog' })],
+    address: formGroup({ zip: ['', [Validators.required]] }),
+  });
+
+  // Clones of the form share their listeners, so subscribing once is enough
+  const ready = form !== undefined;
+  useEffect(() => {
+    if (!form) return undefined;
+    const unsubscribeValue = form.valueChanges.subscribe(onValue);
+    const unsubscribeStatus = form.statusChanges.subscribe(onStatus);
+    return () => {
+      unsubscribeValue();
+      unsubscribeStatus();
+    };
+  }, [ready]);
+
+  if (!form) return null;
+  return (
+    <div>
+      <input data-testid="name" value={form.controls.name.value} onChange={(e) => (form.controls.name.value = e.target.value)} />
+      <input
+        data-testid="kind"
+        value={form.controls.pets.value[0]!.controls.kind.value}
+        onChange={(e) => (form.controls.pets.value[0]!.controls.kind.value = e.target.value)}
+      />
+      <input
+        data-testid="zip"
+        value={form.controls.address.value.controls.zip.value}
+        onChange={(e) => (form.controls.address.value.controls.zip.value = e.target.value)}
+      />
+      <span data-testid="status">{form.status}</span>
+    </div>
+  );
+};
+
+describe('valueChanges / statusChanges with useForm', () => {
+  it('notifies subscribers across re-renders, including nested forms and form arrays', async () => {
+    const user = userEvent.setup();
+    const onValue = vi.fn();
+    const onStatus = vi.fn();
+    render(<Profile onValue={onValue} onStatus={onStatus} />);
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('invalid'));
+
+    await user.type(screen.getByTestId('name'), 'Al');
+    await user.type(screen.getByTestId('kind'), 's');
+    expect(screen.getByTestId('status').textContent).toBe('invalid');
+    await user.type(screen.getByTestId('zip'), '1');
+
+    expect(onValue.mock.calls.map(([event]) => event)).toEqual([
+      { path: 'name', previousValue: '', value: 'A' },
+      { path: 'name', previousValue: 'A', value: 'Al' },
+      { path: 'pets.0.kind', previousValue: 'Dog', value: 'Dogs' },
+      { path: 'address.zip', previousValue: '', value: '1' },
+    ]);
+    expect(onStatus).toHaveBeenCalledWith({ path: '', previousStatus: 'invalid', status: 'valid' });
+    expect(screen.getByTestId('status').textContent).toBe('valid');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import React from 'react';
+import { Form } from '../form';
+import { formGroup } from '../form/functional';
+import { useForm } from '../react';
+
+type Item = { name: string };
+type List = { items: Array<Form<Item>> };
+
+let renders = 0;
+
+const ListPage: React.FC = () => {
+  const { form } = useForm<List>({ items: [formGroup<Item>({ name: 'a' })] });
+  renders++;
+  const items = form?.controls.items;
+
+  return (
+    <div>
+      <div data-testid="names">{items?.value.map((item) => item.controls.name.value).join(',')}</div>
+      <div data-testid="dirty">{String(items?.dirty)}</div>
+      <button data-testid="push" onClick={() => items?.push(formGroup<Item>({ name: `n${items.length}` }))}>push</button>
+      <button data-testid="remove-first" onClick={() => items?.removeAt(0)}>remove</button>
+      <button data-testid="swap" onClick={() => items?.swap(0, 1)}>swap</button>
+      <button data-testid="edit-last" onClick={() => { const last = items?.at(-1); if (last) last.controls.name.value += '!'; }}>edit</button>
+    </div>
+  );
+};
+
+describe('FormArray in useForm', () => {
+  it('re-renders once per operation and keeps pushed items hooked', async () => {
+    const user = userEvent.setup();
+    render(<ListPage />);
+    await waitFor(() => expect(screen.getByTestId('names').textContent).toBe('a'));
+
+    expect(screen.getByTestId('dirty').textContent).toBe('false');
+
+    const before = renders;
+    await user.click(screen.getByTestId('push'));
+    expect(screen.getByTestId('names').textContent).toBe('a,n1');
+    expect(renders - before).toBe(1);
+
+    await user.click(screen.getByTestId('edit-last'));
+    expect(screen.getByTestId('names').textContent).toBe('a,n1!');
+
+    await user.click(screen.getByTestId('swap'));
+    expect(screen.getByTestId('names').textContent).toBe('n1!,a');
+
+    await user.click(screen.getByTestId('remove-first'));
+    expect(screen.getByTestId('names').textContent).toBe('a');
+    expect(screen.getByTestId('dirty').textContent).toBe('true');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, renderHook, act } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import React, { StrictMode } from 'react';
+import { Form, Validators } from '../form';
+import { formStore } from '../form/functional';
+import { useForm, useFormStore } from '../react';
+
+describe('form stores', () => {
+  it('publishes a new snapshot for every update outside React', () => {
+    const store = formStore({ email: ['', [Validators.required]] });
+    const listener = vi.fn();
+    store.subscribe(listener);
+    const first = store.getSnapshot();
+
+    expect(store.getSnapshot()).toBe(first);
+    first.controls.email.value = 'ada@example.com';
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getSnapshot()).not.toBe(first);
+    expect(store.getSnapshot().build()).toEqual({ email: 'ada@example.com' });
+    expect(store.getSnapshot().valid).toBe(true);
+  });
+
+  it('provides the form from useForm on the first render', () => {
+    const forms: Array<Form<{ name: string }> | undefined> = [];
+    renderHook(() => {
+      const { form } = useForm({ name: ['Ada'] });
+      forms.push(form);
+    });
+
+    expect(forms[0]).toBeDefined();
+    expect(forms[0]!.controls.name.value).toBe('Ada');
+  });
+
+  it('keeps one form under StrictMode', async () => {
+    const user = userEvent.setup();
+    const formIds = new Set<string>();
+    const Name: React.FC = () => {
+      const { form } = useForm({ name: [''] });
+      formIds.add(form.formId);
+      return <input data-testid="name" value={form.controls.name.value} onChange={(e) => (form.controls.name.value = e.target.value)} />;
+    };
+    render(
+      <StrictMode>
+        <Name />
+      </StrictMode>,
+    );
+
+    await user.type(screen.getByTestId('name'), 'Ada');
+
+    expect((screen.getByTestId('name') as HTMLInputElement).value).toBe('Ada');
+    expect(formIds.size).toBe(1);
+  });
+
+  it('shares one form between components without cloning it', async () => {
+    const user = userEvent.setup();
+    const store = formStore({ email: [''], newsletter: [false] });
+    const seen: Array<Form<{ email: string; newsletter: boolean }>> = [];
+
+    const Email: React.FC = () => {
+      const form = useFormStore(store);
+      seen.push(form);
+      return <input data-testid="email" value={form.controls.email.value} onChange={(e) => (form.controls.email.value = e.target.value)} />;
+    };
+    const Summary: React.FC = () => {
+      const form = useFormStore(store);
+      seen.push(form);
+      return <span data-testid="summary">{form.build().email}</span>;
+    };
+    render(
+      <>
+        <Email />
+        <Summary />
+      </>,
+    );
+
+    await user.type(screen.getByTestId('email'), 'a@b.c');
+
+    expect(screen.getByTestId('summary').textContent).toBe('a@b.c');
+    expect(seen.at(-1)).toBe(seen.at(-2));
+    expect(seen.at(-1)).toBe(store.getSnapshot());
+  });
+
+  it('recreates the form when a dependency changes', () => {
+    const { result, rerender } = renderHook(({ id }) => useForm({ id: [id] }, {}, [id]), {
+      initialProps: { id: 1 },
+    });
+    const first = result.current.form;
+
+    act(() => {
+      result.current.form.controls.id.value = 5;
+    });
+    rerender({ id: 1 });
+    expect(result.current.form.formId).toBe(first.formId);
+    expect(result.current.form.controls.id.value).toBe(5);
+
+    rerender({ id: 2 });
+    expect(result.current.form.formId).not.toBe(first.formId);
+    expect(result.current.form.controls.id.value).toBe(2);
+    expect(result.current.store.getSnapshot()).toBe(result.current.form);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * React Form-Level Validators Test Suite
+ *
+ * Tests that group validators passed through useForm options take part in
+ * form validity and re-render the component when a child control changes.
+ */
+
+import { useEffect } from "react";
+import { describe, expect, it } from "vitest";
+import { render, waitFor, act } from "@testing-library/react";
+import { Form } from "../form";
+import { useForm } from "../react";
+
+type Range = { startDate: string; endDate: string };
+
+describe("useForm - form-level validators", () => {
+  it("re-renders validity when a cross-field rule changes", async () => {
+    let formRef: Form<Range> | undefined;
+
+    const TestComponent = () => {
+      const { form } = useForm<Range>(
+        { startDate: "2024-01-10", endDate: "2024-01-05" },
+        {
+          validators: [
+            (value) => ({
+              valid: value.endDate > value.startDate,
+              message: "End date must be after start date.",
+            }),
+          ],
+        },
+      );
+      useEffect(() => {
+        formRef = form;
+      });
+      return <span data-testid="valid">{form?.valid ? "valid" : "invalid"}</span>;
+    };
+
+    const { getByTestId } = render(<TestComponent />);
+
+    await waitFor(() => expect(formRef).toBeDefined());
+    expect(getByTestId("valid").textContent).toBe("invalid");
+
+    await act(async () => {
+      formRef!.controls.endDate.value = "2024-01-20";
+    });
+
+    await waitFor(() => expect(getByTestId("valid").textContent).toBe("valid"));
+    expect(formRef!.invalids).toHaveLength(0);
+  });
+});
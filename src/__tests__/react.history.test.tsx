@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import React from 'react';
+import { Form } from '../form';
+import { formGroup } from '../form/functional';
+import { useForm } from '../react';
+
+type Item = { name: string };
+type Author = { name: string };
+type Note = { title: string; author: Form<Author>; items: Array<Form<Item>> };
+
+const NotePage: React.FC = () => {
+  const { form } = useForm<Note>(
+    { title: '', author: formGroup<Author>({ name: '' }), items: [formGroup<Item>({ name: 'a' })] },
+    { history: true },
+  );
+  const title = form.controls.title;
+  const author = form.controls.author.value;
+  const items = form.controls.items;
+
+  return (
+    <div>
+      <input data-testid="title" value={title.value} onChange={(e) => (title.value = e.target.value)} />
+      <input
+        data-testid="author"
+        value={author.controls.name.value}
+        onChange={(e) => (author.controls.name.value = e.target.value)}
+      />
+      <div data-testid="names">{items.value.map((item) => item.controls.name.value).join(',')}</div>
+      <button data-testid="push" onClick={() => items.push(formGroup<Item>({ name: 'b' }))}>push</button>
+      <button data-testid="undo" disabled={!form.canUndo} onClick={() => form.undo()}>undo</button>
+      <button data-testid="redo" disabled={!form.canRedo} onClick={() => form.redo()}>redo</button>
+    </div>
+  );
+};
+
+describe('history in useForm', () => {
+  it('undoes typing as one step and form-array insertions, re-rendering the form', async () => {
+    const user = userEvent.setup();
+    render(<NotePage />);
+    expect(screen.getByTestId<HTMLButtonElement>('undo').disabled).toBe(true);
+
+    await user.type(screen.getByTestId('title'), 'Draft');
+    await user.click(screen.getByTestId('push'));
+    expect(screen.getByTestId('names').textContent).toBe('a,b');
+
+    await user.click(screen.getByTestId('undo'));
+    expect(screen.getByTestId('names').textContent).toBe('a');
+    expect(screen.getByTestId<HTMLInputElement>('title').value).toBe('Draft');
+
+    await user.click(screen.getByTestId('undo'));
+    expect(screen.getByTestId<HTMLInputElement>('title').value).toBe('');
+    expect(screen.getByTestId<HTMLButtonElement>('undo').disabled).toBe(true);
+
+    await user.click(screen.getByTestId('redo'));
+    expect(screen.getByTestId<HTMLInputElement>('title').value).toBe('Draft');
+  });
+
+  it('undoes edits inside a nested form', async () => {
+    const user = userEvent.setup();
+    render(<NotePage />);
+
+    await user.type(screen.getByTestId('author'), 'A');
+    expect(screen.getByTestId<HTMLButtonElement>('undo').disabled).toBe(false);
+
+    await user.click(screen.getByTestId('undo'));
+    expect(screen.getByTestId<HTMLInputElement>('author').value).toBe('');
+    expect(screen.getByTestId<HTMLButtonElement>('undo').disabled).toBe(true);
+
+    await user.click(screen.getByTestId('redo'));
+    expect(screen.getByTestId<HTMLInputElement>('author').value).toBe('A');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * React Message Catalogs Test Suite
+ *
+ * Tests that switching the global or form locale re-renders validation messages.
+ */
+
+import { useEffect } from "react";
+import { afterEach, describe, expect, it } from "vitest";
+import { render, waitFor, act } from "@testing-library/react";
+import { Form, Messages, Validators } from "../form";
+import { useForm } from "../react";
+
+type Profile = { name: string };
+
+describe("useForm - message catalogs", () => {
+  afterEach(() => {
+    Messages.setLocale("en");
+  });
+
+  it("re-renders messages when the locale changes", async () => {
+    Messages.register("it", { required: "Campo obbligatorio." });
+    let formRef: Form<Profile> | undefined;
+
+    const TestComponent = ({ locale }: { locale?: string }) => {
+      const { form } = useForm<Profile>(
+        { name: ["", [Validators.required]] },
+        { locale, messages: { pt: { required: "Campo obrigatório." } } },
+      );
+      useEffect(() => {
+        formRef = form;
+      });
+      return (
+        <span data-testid="message">{form?.controls.name.messages[0]}</span>
+      );
+    };
+
+    const { getByTestId, rerender } = render(<TestComponent />);
+    await waitFor(() => expect(formRef).toBeDefined());
+    expect(getByTestId("message").textContent).toBe("This field is required.");
+
+    await act(async () => {
+      Messages.setLocale("it");
+    });
+    await waitFor(() =>
+      expect(getByTestId("message").textContent).toBe("Campo obbligatorio."),
+    );
+
+    rerender(<TestComponent locale="pt" />);
+    await waitFor(() =>
+      expect(getByTestId("message").textContent).toBe("Campo obrigatório."),
+    );
+  });
+});
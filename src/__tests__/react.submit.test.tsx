@@ -0,0 +1,60 @@
+/**
+ * React Submit Test Suite
+ *
+ * Tests that form.submit() re-renders components while the handler runs
+ * and once the submission completes.
+ */
+
+import { useEffect } from "react";
+import { describe, expect, it } from "vitest";
+import { render, waitFor, act } from "@testing-library/react";
+import { Form, Validators } from "../form";
+import { useForm } from "../react";
+
+type Login = { email: string };
+
+describe("useForm - submit", () => {
+  it("re-renders submitting, submitted and submitError", async () => {
+    let formRef: Form<Login> | undefined;
+    let release!: () => void;
+
+    const TestComponent = () => {
+      const { form } = useForm<Login>({ email: ["ada@example.com", [Validators.required]] });
+      useEffect(() => {
+        formRef = form;
+      });
+      return (
+        <span data-testid="state">
+          {form?.submitting ? "submitting" : "idle"}/{form?.submitCount}/
+          {form?.submitError ? "error" : "ok"}
+        </span>
+      );
+    };
+
+    const { getByTestId } = render(<TestComponent />);
+    await waitFor(() => expect(formRef).toBeDefined());
+    expect(getByTestId("state").textContent).toBe("idle/0/ok");
+
+    let submission!: Promise<boolean>;
+    await act(async () => {
+      submission = formRef!.submit(
+        () =>
+          new Promise<void>((_, reject) => {
+            release = () => reject(new Error("Server error"));
+          }),
+      );
+    });
+    await waitFor(() =>
+      expect(getByTestId("state").textContent).toBe("submitting/0/ok"),
+    );
+
+    await act(async () => {
+      release();
+      await submission;
+    });
+    await waitFor(() =>
+      expect(getByTestId("state").textContent).toBe("idle/1/error"),
+    );
+    expect(formRef!.controls.email.touched).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { formGroup } from "../form/functional";
+import { Form, FormArray, Validators } from "../form";
+import { useForm } from "../react";
+import type { InferFormData } from "../types/form.types";
+
+describe("Types - template inference", () => {
+  it("infers the data type from tuple initializers and plain values", () => {
+    const form = formGroup({
+      name: ["", [Validators.required]],
+      age: [0],
+      nickname: ["", Validators.required, { updateOn: "blur" }],
+      tags: [["a", "b"], []],
+      active: true,
+      scores: [1, 2, 3],
+      birthday: new Date(2000, 0, 1),
+    });
+
+    expectTypeOf(form.build()).toEqualTypeOf<{
+      name: string;
+      age: number;
+      nickname: string;
+      tags: string[];
+      active: boolean;
+      scores: number[];
+      birthday: Date;
+    }>();
+    expectTypeOf(form.controls.nickname.value).toEqualTypeOf<string>();
+    expectTypeOf(form.controls.scores.value).toEqualTypeOf<number[]>();
+    expect(form.build()).toMatchObject({ name: "", age: 0, tags: ["a", "b"], scores: [1, 2, 3] });
+  });
+
+  it("infers nested forms and arrays of forms of any length", () => {
+    const form = formGroup({
+      address: formGroup({ street: ["", [Validators.required]], zip: "" }),
+      pair: [formGroup({ name: "Pen" }), formGroup({ name: "Ink" })],
+      single: [formGroup({ name: "Pad" })],
+    });
+
+    expectTypeOf(form.build()).toEqualTypeOf<{
+      address: { street: string; zip: string };
+      pair: Array<{ name: string }>;
+      single: Array<{ name: string }>;
+    }>();
+    expectTypeOf(form.controls.pair.value[1]!.controls.name.value).toEqualTypeOf<string>();
+    expectTypeOf(form.controls.single.value[0]!.controls.name.value).toEqualTypeOf<string>();
+    expectTypeOf<InferFormData<{ pets: [Form<{ kind: string }>] }>>().toEqualTypeOf<{
+      pets: Array<Form<{ kind: string }>>;
+    }>();
+
+    expect(form.build()).toEqual({
+      address: { street: "", zip: "" },
+      pair: [{ name: "Pen" }, { name: "Ink" }],
+      single: [{ name: "Pad" }],
+    });
+  });
+
+  it("infers empty form arrays declared with an item form", () => {
+    const form = formGroup({
+      items: [[], [], { itemForm: formGroup({ name: "" }) }],
+      tags: [[], []],
+    });
+
+    expectTypeOf(form.build().items).toEqualTypeOf<Array<{ name: string }>>();
+    expectTypeOf(form.controls.items.at(0)).toEqualTypeOf<Form<{ name: string }> | undefined>();
+    expect(FormArray.isFormArray(form.controls.items)).toBe(true);
+    expect(FormArray.isFormArray(form.controls.tags)).toBe(false);
+  });
+
+  it("types form options with the inferred data type", () => {
+    const form = formGroup(
+      { password: [""], confirm: [""] },
+      {
+        validators: [
+          (value) => {
+            expectTypeOf(value).toEqualTypeOf<{ password: string; confirm: string }>();
+            return value.password === value.confirm;
+          },
+        ],
+      },
+    );
+
+    expect(form.valid).toBe(true);
+  });
+
+  it("keeps explicit type arguments", () => {
+    type Profile = { name: string; tags: [string, string] };
+    const form = formGroup<Profile>({ name: "Ada", tags: [["a", "b"], []] });
+
+    expectTypeOf(form).toEqualTypeOf<Form<Profile>>();
+    // @ts-expect-error the template must match the explicit type
+    formGroup<Profile>({ name: 1, tags: [["a", "b"]] });
+  });
+
+  it("infers the form type of useForm", async () => {
+    const { result } = renderHook(() =>
+      useForm({
+        name: ["", [Validators.required]],
+        age: [0],
+        pets: [formGroup({ kind: "Dog" }), formGroup({ kind: "Cat" })],
+      }),
+    );
+
+    expectTypeOf(result.current.form!.build()).toEqualTypeOf<{
+      name: string;
+      age: number;
+      pets: Array<{ kind: string }>;
+    }>();
+    await waitFor(() => expect(result.current.form).toBeDefined());
+    expect(result.current.form!.build()).toEqual({
+      name: "",
+      age: 0,
+      pets: [{ kind: "Dog" }, { kind: "Cat" }],
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { formGroup } from "../form/functional";
+import { Form, FormArray, FormControl, Validators } from "../form";
+import { Address, Item, Order, orderTemplate } from "../test/form-test-utils";
+
+type NotedOrder = Order & { notes: { text: string } };
+
+const order = () => formGroup<NotedOrder>({ ...orderTemplate(), notes: { text: "" } });
+
+describe("Types - nested controls", () => {
+  it("types the controls of nested forms and arrays of forms", () => {
+    const form = order();
+
+    expectTypeOf(form.controls.address.value).toEqualTypeOf<Form<Address>>();
+    expectTypeOf(form.controls.address.value.controls.street).toEqualTypeOf<
+      FormControl<string, Address>
+    >();
+    expectTypeOf(form.controls.items.value).toEqualTypeOf<Array<Form<Item>>>();
+    expectTypeOf(form.controls.items).toEqualTypeOf<FormArray<Item, NotedOrder>>();
+    expectTypeOf(form.controls.items.at(0)).toEqualTypeOf<Form<Item> | undefined>();
+    expectTypeOf(form.controls.items.value[0]!.controls.name.value).toEqualTypeOf<string>();
+    expectTypeOf(form.controls.items.value[0]!.controls.qty.value).toEqualTypeOf<number>();
+    expectTypeOf(form.controls.notes.value.text).toEqualTypeOf<string>();
+    expectTypeOf(form.getControl("items")).toEqualTypeOf<FormArray<Item, NotedOrder> | undefined>();
+
+    // @ts-expect-error unknown nested control
+    void form.controls.address.value.controls.city;
+    // @ts-expect-error nested control values keep their type
+    form.controls.items.value[0]!.controls.qty.value = "many";
+
+    expect(form.controls.address.value.controls.street.value).toBe("Main St");
+    expect(form.controls.items.value[1]!.controls.name.value).toBe("Ink");
+  });
+
+  it("builds the plain data of nested forms", () => {
+    const form = order();
+
+    expectTypeOf(form.build()).toEqualTypeOf<{
+      email: string;
+      address: { street: string; zip: string };
+      items: Array<{ name: string; qty: number }>;
+      notes: { text: string };
+    }>();
+    expect(form.build().items[1]).toEqual({ name: "Ink", qty: 2 });
+  });
+
+  it("types controls of inferred nested forms", () => {
+    const form = formGroup({
+      email: ["", [Validators.required]],
+      profile: formGroup({
+        name: "Ada",
+        address: formGroup({ street: "Main St" }),
+      }),
+      items: [
+        formGroup({ name: "Pen", qty: 1 }),
+        formGroup({ name: "Ink", qty: 2 }),
+        formGroup({ name: "Pad", qty: 3 }),
+      ],
+    });
+
+    expectTypeOf(
+      form.controls.profile.value.controls.address.value.controls.street.value,
+    ).toEqualTypeOf<string>();
+    expectTypeOf(form.controls.items.value[2]!.controls.qty.value).toEqualTypeOf<number>();
+    expectTypeOf(form.controls.items.push)
+      .parameter(0)
+      .toEqualTypeOf<Form<{ name: string; qty: number }>>();
+    expectTypeOf(form.build().profile.address).toEqualTypeOf<{ street: string }>();
+    expectTypeOf(form.build().items).toEqualTypeOf<Array<{ name: string; qty: number }>>();
+  });
+
+  it("accepts nested forms for fields declared with their plain data type", () => {
+    type Signup = { email: string; profile: { name: string }; pets: Array<{ kind: string }> };
+
+    const form = formGroup<Signup>({
+      email: [""],
+      profile: formGroup({ name: "Ada" }),
+      pets: [formGroup({ kind: "Dog" }), formGroup({ kind: "Cat" })],
+    });
+
+    expectTypeOf(form.build()).toEqualTypeOf<Signup>();
+    expect(form.build()).toEqual({
+      email: "",
+      profile: { name: "Ada" },
+      pets: [{ kind: "Dog" }, { kind: "Cat" }],
+    });
+  });
+});
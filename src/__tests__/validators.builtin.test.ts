@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { Validators } from "../form/validators";
+import { formGroup } from "../form/functional";
+
+describe("Validators - built-in library", () => {
+  it("minLength / maxLength work with strings and arrays", () => {
+    expect(Validators.minLength(3)("ab").valid).toBe(false);
+    expect(Validators.minLength(3)("ab")).toEqual({
+      valid: false,
+      code: "minLength",
+      message: "Must be at least {required} characters.",
+      params: { required: 3, actual: 2 },
+    });
+    expect(Validators.minLength(3)("abc").valid).toBe(true);
+    expect(Validators.minLength(2)([1]).message).toBe(
+      "Must contain at least {required} items.",
+    );
+    expect(Validators.maxLength(3)("abcd").valid).toBe(false);
+    expect(Validators.maxLength(2)([1, 2]).valid).toBe(true);
+    expect(Validators.maxLength(2)([1, 2, 3]).valid).toBe(false);
+  });
+
+  it("skips empty, File and Blob values so they compose with required", () => {
+    const file = new File(["hello"], "hello.txt", { type: "text/plain" });
+    const blob = new Blob(["abc"]);
+
+    expect(Validators.minLength(3)("").valid).toBe(true);
+    expect(Validators.minLength(3)(null).valid).toBe(true);
+    expect(Validators.minLength(3)(file).valid).toBe(true);
+    expect(Validators.pattern(/^a$/)(blob).valid).toBe(true);
+    expect(Validators.email(undefined).valid).toBe(true);
+    expect(Validators.min(5)(null).valid).toBe(true);
+  });
+
+  it("min / max work with numbers, numeric strings and Dates", () => {
+    expect(Validators.min(18)(16)).toEqual({
+      valid: false,
+      code: "min",
+      message: "Must be at least {min}.",
+      params: { min: 18, actual: 16 },
+    });
+    expect(Validators.min(18)("21").valid).toBe(true);
+    expect(Validators.max(10)(11).valid).toBe(false);
+    expect(Validators.max(10)(10).valid).toBe(true);
+
+    const limit = new Date("2024-01-01T00:00:00.000Z");
+    expect(Validators.min(limit)(new Date("2025-01-01")).valid).toBe(true);
+    expect(Validators.min(limit)(new Date("2023-01-01")).params?.min).toBe(
+      limit,
+    );
+    expect(Validators.max(limit)(new Date("2025-01-01")).valid).toBe(false);
+  });
+
+  it("pattern accepts RegExp and anchored string patterns", () => {
+    expect(Validators.pattern(/^[A-Z]{3}$/)("USD").valid).toBe(true);
+    expect(Validators.pattern("[0-9]+")("12a").valid).toBe(false);
+    expect(Validators.pattern("[0-9]+")("12").valid).toBe(true);
+
+    const globalRegex = Validators.pattern(/a/g);
+    expect(globalRegex("a").valid).toBe(true);
+    expect(globalRegex("a").valid).toBe(true);
+  });
+
+  it("email, url, integer, numeric, requiredTrue and oneOf", () => {
+    expect(Validators.email("john@example.com").valid).toBe(true);
+    expect(Validators.email("john@").valid).toBe(false);
+    expect(Validators.url("https://example.com/a?b=c").valid).toBe(true);
+    expect(Validators.url("ftp://example.com").valid).toBe(false);
+    expect(Validators.url("example").valid).toBe(false);
+    expect(Validators.integer(3).valid).toBe(true);
+    expect(Validators.integer(3.5).valid).toBe(false);
+    expect(Validators.integer("4").valid).toBe(true);
+    expect(Validators.numeric("12.5").valid).toBe(true);
+    expect(Validators.numeric("abc").valid).toBe(false);
+    expect(Validators.requiredTrue(true).valid).toBe(true);
+    expect(Validators.requiredTrue(false).valid).toBe(false);
+    expect(Validators.oneOf(["USD", "EUR"])("GBP").params).toEqual({
+      allowed: ["USD", "EUR"],
+    });
+    expect(Validators.oneOf(["USD", "EUR"])(["USD", "EUR"]).valid).toBe(true);
+  });
+
+  it("can be used in the [value, [validators]] tuple syntax", () => {
+    const form = formGroup({
+      name: ["Jo", [Validators.required, Validators.minLength(3)]],
+      email: ["john@example.com", [Validators.email]],
+      age: [30, [Validators.min(18), Validators.max(99), Validators.integer]],
+    });
+
+    expect(form.controls.name.valid).toBe(false);
+    expect(form.valid).toBe(false);
+
+    form.controls.name.value = "John";
+    expect(form.controls.name.valid).toBe(true);
+    expect(form.valid).toBe(true);
+
+    form.controls.age.value = 12;
+    expect(form.controls.age.valid).toBe(false);
+    expect(
+      form.controls.age.invalids.find((inv) => !inv.result.valid)?.message,
+    ).toBe("Must be at least 18.");
+  });
+});
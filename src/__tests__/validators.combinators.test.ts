@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { Validators } from "../form/validators";
+import { formGroup } from "../form/functional";
+
+describe("Validators - combinators", () => {
+  it("compose passes only when every validator passes and reports the first error", () => {
+    const username = Validators.compose<string>(
+      Validators.required,
+      Validators.minLength(3),
+      Validators.pattern(/^[a-z]+$/),
+    );
+
+    expect(username("abc")).toEqual({ valid: true });
+    expect(username("A")).toMatchObject({
+      valid: false,
+      code: "minLength",
+      params: { required: 3, actual: 1 },
+    });
+    expect(username("")).toMatchObject({ code: "required" });
+  });
+
+  it("bail stops at the first failure so later async validators are skipped", async () => {
+    let calls = 0;
+    async function isAvailable(value: string) {
+      calls++;
+      return value !== "taken@x.io";
+    }
+    const emailCheck = Validators.bail<string>(
+      Validators.required,
+      Validators.email,
+      isAvailable,
+    );
+
+    expect(emailCheck("nope")).toMatchObject({ valid: false, code: "email" });
+    expect(calls).toBe(0);
+
+    await expect(emailCheck("taken@x.io")).resolves.toMatchObject({
+      valid: false,
+      code: "isAvailable",
+    });
+    await expect(emailCheck("free@x.io")).resolves.toEqual({ valid: true });
+    expect(calls).toBe(2);
+  });
+
+  it("anyOf passes when one alternative passes", () => {
+    const contact = Validators.anyOf<string>(
+      Validators.email,
+      Validators.pattern(/^\+?[0-9 ]+$/),
+    );
+
+    expect(contact("john@example.com")).toEqual({ valid: true });
+    expect(contact("+49 123")).toEqual({ valid: true });
+    const result = contact("nope") as { code?: string; params?: any };
+    expect(result.code).toBe("anyOf");
+    expect(result.params.results).toHaveLength(2);
+  });
+
+  it("not negates a validator with a configurable code and message", () => {
+    const reserved = Validators.not(Validators.oneOf(["admin", "root"]), {
+      code: "reservedName",
+      message: "{value} is reserved.",
+    });
+
+    expect(reserved("john")).toEqual({ valid: true });
+    expect(reserved("admin")).toEqual({
+      valid: false,
+      code: "reservedName",
+      message: "{value} is reserved.",
+    });
+    expect(Validators.not((value: number) => value > 0)(5)).toMatchObject({
+      code: "not",
+    });
+  });
+
+  it("when only applies the validator if the predicate holds", () => {
+    const vatId = Validators.when(
+      (value: string) => value.startsWith("DE"),
+      Validators.pattern(/^DE[0-9]{9}$/),
+    );
+
+    expect(vatId("FR123")).toEqual({ valid: true });
+    expect(vatId("DE123")).toMatchObject({ valid: false, code: "pattern" });
+    expect(vatId("DE123456789")).toEqual({ valid: true });
+  });
+
+  it("returns ordinary validators usable with add/remove/hasValidator", async () => {
+    const checkName = Validators.bail<string>(
+      Validators.required,
+      async (value) => value !== "taken",
+    );
+    const form = formGroup({ name: ["taken"] });
+
+    form.controls.name.addValidator(checkName);
+    expect(form.controls.name.hasValidator(checkName)).toBe(true);
+    await expect(form.whenSettled()).resolves.toBe(false);
+
+    form.controls.name.value = "";
+    await form.whenSettled();
+    expect(form.controls.name.hasError("required")).toBe(true);
+
+    form.controls.name.removeValidator(checkName);
+    expect(form.controls.name.hasValidator(checkName)).toBe(false);
+    expect(form.controls.name.valid).toBe(true);
+  });
+
+  it("removes only the given one of several validators made by the same factory", () => {
+    const letters = Validators.compose<string>(Validators.pattern(/^[a-z]*$/));
+    const short = Validators.compose<string>(Validators.maxLength(3));
+    const publish = Validators.group<string>("publish", Validators.required);
+    const review = Validators.group<string>("review", Validators.minLength(2));
+    const min3 = Validators.minLength(3);
+    const min10 = Validators.minLength(10);
+    const form = formGroup({ name: ["ABCD", [letters, short, publish, review, min3, min10]] });
+    const name = () => form.controls.name;
+
+    name().removeValidator(letters);
+    name().removeValidator(publish);
+    name().removeValidator(min3);
+
+    expect(name().hasValidator(short)).toBe(true);
+    expect(name().hasValidator(review)).toBe(true);
+    expect(name().hasValidator(min10)).toBe(true);
+    expect([letters, publish, min3].some((fn) => name().hasValidator(fn))).toBe(false);
+    expect(name().hasError("maxLength")).toBe(true);
+    expect(name().hasError("minLength")).toBe(true);
+
+    name().removeValidator(Validators.minLength(10));
+    expect(name().hasValidator(min10)).toBe(true);
+  });
+});
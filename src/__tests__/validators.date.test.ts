@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Validators } from "../form/validators";
+import { formGroup } from "../form/functional";
+
+describe("Validators - dates", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Wednesday, 2024-05-15 22:30 UTC (Thursday 00:30 in Berlin)
+    vi.setSystemTime(new Date("2024-05-15T22:30:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("date accepts Dates and ISO strings and rejects impossible dates", () => {
+    expect(Validators.date("2024-02-29").valid).toBe(true);
+    expect(Validators.date("2024-05-15T10:00:00Z").valid).toBe(true);
+    expect(Validators.date(new Date("nope"))).toEqual({
+      valid: false,
+      code: "date",
+      message: "Must be a valid date.",
+    });
+    expect(Validators.date("2023-02-29").valid).toBe(false);
+    expect(Validators.date("").valid).toBe(true);
+  });
+
+  it("minDate / maxDate compare calendar days by default", () => {
+    expect(Validators.minDate("2024-06-01")("2024-05-31")).toEqual({
+      valid: false,
+      code: "minDate",
+      message: "Must be on or after {min}.",
+      params: { min: "2024-06-01", actual: "2024-05-31" },
+    });
+    expect(Validators.minDate("2024-06-01")("2024-06-01T08:00:00Z").valid).toBe(
+      true,
+    );
+    expect(Validators.maxDate(new Date("2024-06-01T12:00:00Z"))("2024-06-01").valid).toBe(
+      true,
+    );
+    expect(Validators.maxDate("2024-06-01")("2024-06-02").code).toBe("maxDate");
+  });
+
+  it("uses the configured time zone and granularity", () => {
+    const lateEvening = "2024-05-31T22:30:00Z";
+    expect(
+      Validators.minDate("2024-06-01", { timeZone: "UTC" })(lateEvening).valid,
+    ).toBe(false);
+    expect(
+      Validators.minDate("2024-06-01", { timeZone: "Europe/Berlin" })(lateEvening)
+        .valid,
+    ).toBe(true);
+
+    const limit = new Date("2024-06-01T12:00:00Z");
+    expect(
+      Validators.minDate(limit, { granularity: "millisecond" })(
+        "2024-06-01T11:59:59Z",
+      ).params,
+    ).toEqual({
+      min: "2024-06-01T12:00:00.000Z",
+      actual: "2024-06-01T11:59:59.000Z",
+    });
+  });
+
+  it("notInPast / notInFuture are relative to today in the time zone", () => {
+    expect(Validators.notInPast({ timeZone: "UTC" })("2024-05-15").valid).toBe(true);
+    expect(Validators.notInPast({ timeZone: "Europe/Berlin" })("2024-05-15").code).toBe(
+      "notInPast",
+    );
+    expect(
+      Validators.notInPast({ granularity: "millisecond" })(
+        "2024-05-15T22:00:00Z",
+      ).valid,
+    ).toBe(false);
+    expect(Validators.notInFuture({ timeZone: "UTC" })("2024-05-16").valid).toBe(false);
+    expect(Validators.notInFuture({ timeZone: "Europe/Berlin" })("2024-05-16").valid).toBe(
+      true,
+    );
+  });
+
+  it("businessDay rejects weekends and holidays", () => {
+    const businessDay = Validators.businessDay({ holidays: ["2024-12-25"] });
+    expect(businessDay("2024-05-17").valid).toBe(true);
+    expect(businessDay("2024-05-18").params).toEqual({
+      actual: "2024-05-18",
+      weekday: 6,
+    });
+    expect(businessDay("2024-12-25").valid).toBe(false);
+    expect(
+      Validators.businessDay({ weekend: [5, 6] })("2024-05-17").valid,
+    ).toBe(false);
+  });
+
+  it("minAge / maxAge count whole years up to today", () => {
+    expect(Validators.minAge(18, { timeZone: "UTC" })("2006-05-15").valid).toBe(true);
+    expect(Validators.minAge(18, { timeZone: "UTC" })("2006-05-16")).toEqual({
+      valid: false,
+      code: "minAge",
+      message: "Must be at least {min} years old.",
+      params: { min: 18, actual: 17 },
+    });
+    expect(
+      Validators.minAge(18, { timeZone: "Europe/Berlin" })("2006-05-16").valid,
+    ).toBe(true);
+    expect(Validators.maxAge(65, { timeZone: "UTC" })("1950-01-01").params).toEqual({
+      max: 65,
+      actual: 74,
+    });
+  });
+
+  it("reports rendered messages in a form", () => {
+    const form = formGroup({
+      settlement: [
+        "2024-05-18",
+        [
+          Validators.required,
+          Validators.date,
+          Validators.businessDay({ timeZone: "UTC" }),
+          Validators.maxDate("2024-05-17"),
+        ],
+      ],
+    });
+
+    expect(form.controls.settlement.messages).toEqual([
+      "Must be a business day.",
+      "Must be on or before 2024-05-17.",
+    ]);
+    form.controls.settlement.value = "2024-05-16";
+    expect(form.controls.settlement.valid).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { Validators } from "../form/validators";
+import { formGroup } from "../form/functional";
+
+const fileOf = (size: number, name: string, type = "") =>
+  new File(["x".repeat(size)], name, { type });
+
+describe("Validators - File and Blob", () => {
+  it("maxFileSize / minFileSize check single files, blobs and lists", () => {
+    const small = fileOf(10, "small.png", "image/png");
+    const large = fileOf(3000, "large.png", "image/png");
+
+    expect(Validators.maxFileSize(2048)(small).valid).toBe(true);
+    expect(Validators.maxFileSize(2048)([small, large])).toEqual({
+      valid: false,
+      code: "maxFileSize",
+      message: "{fileName} must be at most {maxSizeLabel}.",
+      params: {
+        maxSize: 2048,
+        maxSizeLabel: "2 KB",
+        actual: 3000,
+        fileName: "large.png",
+      },
+    });
+    expect(Validators.maxFileSize(2)(new Blob(["abc"])).params?.fileName).toBe(
+      "File",
+    );
+    expect(Validators.minFileSize(1)(fileOf(0, "empty.txt")).code).toBe(
+      "minFileSize",
+    );
+    expect(Validators.minFileSize(1)(small).valid).toBe(true);
+  });
+
+  it("fileType supports wildcards and fileExtension ignores case and dots", () => {
+    const png = fileOf(1, "photo.PNG", "image/png");
+    const pdf = fileOf(1, "report.pdf", "application/pdf");
+
+    expect(Validators.fileType(["image/*"])(png).valid).toBe(true);
+    expect(Validators.fileType(["image/*"])([png, pdf]).params).toEqual({
+      allowed: ["image/*"],
+      actual: "application/pdf",
+      fileName: "report.pdf",
+    });
+    expect(Validators.fileType(["application/pdf"])(pdf).valid).toBe(true);
+
+    expect(Validators.fileExtension(["png", ".pdf"])([png, pdf]).valid).toBe(
+      true,
+    );
+    expect(Validators.fileExtension([".png"])(pdf).code).toBe("fileExtension");
+    expect(Validators.fileExtension([".png"])(new Blob(["a"])).valid).toBe(true);
+  });
+
+  it("maxFiles / minFiles count files and leave empty lists to required", () => {
+    const files = [fileOf(1, "a.txt"), fileOf(1, "b.txt"), fileOf(1, "c.txt")];
+
+    expect(Validators.maxFiles(2)(files)).toEqual({
+      valid: false,
+      code: "maxFiles",
+      message: "Select at most {max} files.",
+      params: { max: 2, actual: 3 },
+    });
+    expect(Validators.maxFiles(3)(files).valid).toBe(true);
+    expect(Validators.minFiles(2)(files.slice(0, 1)).valid).toBe(false);
+    expect(Validators.minFiles(2)([]).valid).toBe(true);
+    expect(Validators.minFiles(2)(null).valid).toBe(true);
+  });
+
+  it("renders structured messages in a form and composes with required", () => {
+    const form = formGroup<{ avatar: File | null; attachments: File[] }>({
+      avatar: [
+        null,
+        [
+          Validators.required,
+          Validators.maxFileSize(1024),
+          Validators.fileType(["image/*"]),
+        ],
+      ],
+      attachments: [[], [Validators.maxFiles(1)]],
+    });
+
+    expect(Object.keys(form.controls.avatar.errors)).toEqual(["required"]);
+    expect(form.controls.attachments.valid).toBe(true);
+
+    form.controls.avatar.value = fileOf(2048, "big.gif", "image/gif");
+    expect(form.controls.avatar.messages).toEqual([
+      "big.gif must be at most 1 KB.",
+    ]);
+
+    form.controls.avatar.value = fileOf(10, "notes.txt", "text/plain");
+    expect(form.controls.avatar.messages).toEqual([
+      "notes.txt must be of type: image/*.",
+    ]);
+
+    form.controls.attachments.value = [fileOf(1, "a.txt"), fileOf(1, "b.txt")];
+    expect(form.controls.attachments.getError("maxFiles")?.message).toBe(
+      "Select at most 1 files.",
+    );
+  });
+});
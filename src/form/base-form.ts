@@ -1,5 +1,12 @@
 import { RequiresHook } from "../state/requires-hook";
-import { PatchValueProps } from "../types/control.types";
+import { Subscribable } from "../state/subscribable";
+import {
+  FormStatus,
+  PatchValueProps,
+  StatusChangeEvent,
+  ValueChangeEvent,
+} from "../types/control.types";
+import type { Ref } from "./util/form-control.util";
 import { Cloneable, TopLevelFormState } from "../types/form.types";
 
 /**
@@ -65,6 +72,12 @@ export abstract class BaseForm<T, Z extends BaseForm<T> = any>
    */
   protected _valid: boolean = true;
 
+  /**
+   * Indicates whether async validation is still running
+   * @protected
+   */
+  protected _pending: boolean = false;
+
   /**
    * Indicates whether the form is in read-only mode
    * @protected
@@ -77,6 +90,28 @@ export abstract class BaseForm<T, Z extends BaseForm<T> = any>
    */
   protected _disabled: boolean = false;
 
+  /**
+   * Notifies listeners of every value written to this control or form, including the
+   * controls, nested forms and form arrays below it
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = form.valueChanges.subscribe(({ path, value }) => autosave(path, value));
+   * ```
+   */
+  public readonly valueChanges = new Subscribable<ValueChangeEvent>();
+
+  /**
+   * Notifies listeners when the status of this control or form, or of one below it, changes
+   */
+  public readonly statusChanges = new Subscribable<StatusChangeEvent>();
+
+  /**
+   * The status last reported through `statusChanges`, shared between clones
+   * @private
+   */
+  private _reportedStatus: Ref<FormStatus | undefined> = { current: undefined };
+
   /**
    * Creates a new BaseForm instance
    * @param setState - Optional React state setter function for propagating updates
@@ -148,6 +183,20 @@ export abstract class BaseForm<T, Z extends BaseForm<T> = any>
     return this._valid;
   }
 
+  /**
+   * Gets whether async validation is still running
+   * @returns True if at least one async validator has not settled yet
+   */
+  get pending(): boolean {
+    return this._pending;
+  }
+
+  /**
+   * Gets the validation status: `'pending'` while async validation runs, otherwise
+   * `'valid'` or `'invalid'`
+   */
+  abstract get status(): FormStatus;
+
   /**
    * Gets whether the form is in read-only mode
    * @returns True if the form is read-only
@@ -249,8 +298,72 @@ export abstract class BaseForm<T, Z extends BaseForm<T> = any>
    */
   protected abstract internalUpdate(value?: T, args?: {
     markAsDirty: boolean,
+    markAsTouched?: boolean,
   }): void;
 
+  /**
+   * Gets the control or form this one's change events bubble to, with the path segment
+   * leading from it to this one (`''` if there is none)
+   * @protected
+   */
+  protected abstract changeParent(): { parent: BaseForm<any>; segment: string } | undefined;
+
+  /**
+   * Notifies value listeners here and on every ancestor, prefixing the event's path
+   * @internal
+   */
+  public emitValueChange(event: ValueChangeEvent): void {
+    this.valueChanges.emit(event);
+    const { parent, segment } = this.changeParent() ?? {};
+    parent?.emitValueChange({ ...event, path: joinPath(segment, event.path) });
+  }
+
+  /**
+   * Notifies status listeners here and on every ancestor, prefixing the event's path
+   * @internal
+   */
+  public emitStatusChange(event: StatusChangeEvent): void {
+    this.statusChanges.emit(event);
+    const { parent, segment } = this.changeParent() ?? {};
+    parent?.emitStatusChange({ ...event, path: joinPath(segment, event.path) });
+  }
+
+  /**
+   * Checks whether value listeners are subscribed here or on an ancestor, so events are
+   * only built when someone receives them
+   * @protected
+   */
+  protected valueChangesObserved(): boolean {
+    for (let node: BaseForm<any> | undefined = this; node; node = node.changeParent()?.parent) {
+      if (node.valueChanges.observed) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Reports a changed status before propagating the update
+   * @protected
+   */
+  protected override propagate<O extends RequiresHook<any>>(self: O): void {
+    this.reportStatus();
+    super.propagate(self);
+  }
+
+  /**
+   * Emits a status change if the status differs from the one last reported
+   * @protected
+   */
+  protected reportStatus(): void {
+    const status = this.status;
+    const previousStatus = this._reportedStatus.current;
+    this._reportedStatus.current = status;
+    if (previousStatus !== undefined && previousStatus !== status) {
+      this.emitStatusChange({ path: "", previousStatus, status });
+    }
+  }
+
   /**
    * Generates a unique form ID
    * @private
@@ -266,3 +379,8 @@ export abstract class BaseForm<T, Z extends BaseForm<T> = any>
     return id;
   }
 }
+
+// Joins a path segment and a path, either of which may be empty
+function joinPath(segment: string | undefined, path: string): string {
+  return [segment, path].filter((part) => part).join(".");
+}
@@ -4,10 +4,43 @@ import type {
   FormControlNonArrayPrimitiveMap,
   FormControlPrimitiveMap,
 } from "../types/form.types";
-import { FormControl } from "./formcontrol";
-import { createFormControls } from "./util/form-control.util";
+import { FormArray, FormControl } from "./formcontrol";
+import { createFormControls, recreatedFormOptions, Ref } from "./util/form-control.util";
 import { BaseForm } from "./base-form";
-import { PatchValueProps } from "../types/control.types";
+import { FormStatus, PatchValueProps, UpdateOn } from "../types/control.types";
+import {
+  FormErrors,
+  MessageCatalog,
+  ServerError,
+  ServerErrors,
+  ValidationError,
+  ValidationReport,
+  ValidationResult,
+  ValidatorFn,
+} from "../types/validator.types";
+import {
+  mergeCatalog,
+  messagesKey,
+  renderValidationMessage,
+  resolveLocale,
+  touchMessages,
+} from "./util/message.util";
+import { createFormScope, FormScope, resolveScoped } from "./util/scope.util";
+import { parsePath, resolvePath, setIn, unwrapValue } from "./util/path.util";
+import type { FormValue, Path, PathValue } from "../types/path.types";
+import { History, HistoryOptions } from "../state/history";
+import {
+  AsyncValidationState,
+  createAsyncValidationRef,
+  executeValidators,
+  inGroups,
+  isError,
+  isWarning,
+  ownEntry,
+  resultsAreValid,
+  toServerResults,
+  toValidationErrors,
+} from "./util/validation.util";
 
 /**
  * Internal type for accepted control configurations
@@ -18,7 +51,25 @@ type AcceptedControls<T> =
   | FormControlPrimitiveMap<T>
   | FormControlNonArrayPrimitiveMap<T>;
 
-export type FormOptions = {
+/**
+ * Internal type for the template of a single control
+ * @template T - The form data type
+ * @template K - The key of the control
+ */
+type ControlTemplate<T, K extends keyof T> =
+  | FormControlMap<T>[K]
+  | FormControlPrimitiveMap<T>[K]
+  | FormControlNonArrayPrimitiveMap<T>[K];
+
+/**
+ * Internal type for the keys of optional fields, the only controls that can be removed
+ * @template T - The form data type
+ */
+type OptionalKeys<T> = {
+  [K in keyof T]-?: {} extends Pick<T, K> ? K : never;
+}[keyof T];
+
+export type FormOptions<T = any> = {
   /**
    * If provided, sets the initial readonly state of the form.
    *
@@ -35,6 +86,160 @@ export type FormOptions = {
    * already overrides everything.
    */
   forceReadOnly?: boolean;
+
+  /**
+   * Form-level (cross-field) validators. They receive the built form value and
+   * contribute to `form.valid` and `form.invalids`. They are re-run whenever a
+   * child control changes.
+   *
+   * @example
+   * ```typescript
+   * formGroup({ password: [''], confirm: [''] }, {
+   *   validators: [(v) => ({ valid: v.password === v.confirm, message: 'Passwords must match.' })],
+   * });
+   * ```
+   */
+  validators?: Array<ValidatorFn<T>>;
+
+  /**
+   * Locale used to resolve validation messages of this form and its nested forms.
+   * Defaults to the parent form's locale, then to the global `Messages` locale.
+   */
+  locale?: string;
+
+  /**
+   * Message catalogs of this form keyed by locale, then by error code. They take
+   * precedence over catalogs registered globally through `Messages.register`.
+   *
+   * @example
+   * ```typescript
+   * formGroup({ name: ['', [Validators.required]] }, {
+   *   locale: 'de',
+   *   messages: { de: { required: 'Bitte {key} angeben.' } },
+   * });
+   * ```
+   */
+  messages?: Record<string, MessageCatalog>;
+
+  /**
+   * When controls re-run their validators (`'change'`, `'blur'` or `'submit'`).
+   * Applies to every control and nested form that does not set its own `updateOn`.
+   * With `'blur'` or `'submit'`, form-level validators re-run when controls are
+   * validated rather than on every value change.
+   */
+  updateOn?: UpdateOn;
+
+  /**
+   * Records value changes of the form (nested forms and form arrays included) so they
+   * can be reverted with `undo()` and re-applied with `redo()`. `true` keeps the last
+   * 100 steps and merges edits of the same path within 500ms into one step.
+   *
+   * @example
+   * ```typescript
+   * formGroup({ title: '', body: '' }, { history: { depth: 50, coalesceMs: 1000 } });
+   * ```
+   */
+  history?: boolean | HistoryOptions;
+};
+
+/**
+ * Internal state of the form-level validators, shared between clones of a form
+ * so async results land on whichever instance is current.
+ */
+type FormValidationState<T> = {
+  validators: Array<ValidatorFn<T>>;
+  results: Array<FormValidationResult>;
+  valid: boolean;
+  pending: boolean;
+  /** Control values the results were computed for; used to skip redundant runs */
+  snapshot?: unknown[];
+  /** Form-level errors set through `setServerErrors` */
+  serverResults: Array<FormValidationResult>;
+  /** Built control values when the server errors were set; they expire once a value changes */
+  serverSnapshot?: unknown[];
+};
+
+/**
+ * Checks whether two lists hold the same values in the same order
+ */
+function sameValues(a: unknown[] | undefined, b: unknown[]): boolean {
+  return !!a && a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+/**
+ * Checks whether two built values are equal: plain objects and arrays by their
+ * contents, everything else (dates, files, ...) by identity
+ */
+function sameBuiltValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => sameBuiltValue(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && sameBuiltValue(a[key], b[key]))
+    );
+  }
+  return Object.is(a, b);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * The result of a form-level validator. It has no `key`, which distinguishes it
+ * from a control inside `form.invalids`.
+ */
+export type FormValidationResult = ValidationResult<any> & { key?: undefined };
+
+/**
+ * An entry of `form.invalids`: either an invalid control or a failed form-level validator
+ * @template T - The form data type
+ */
+export type FormInvalid<T> = FormControl<any, T> | FormValidationResult;
+
+/**
+ * Submission state of a form, shared between clones so an async submission
+ * updates whichever instance is current
+ */
+type SubmissionState = {
+  submitting: boolean;
+  submitted: boolean;
+  submitCount: number;
+  error?: unknown;
+  /** The submission in progress, if any */
+  inFlight?: Promise<boolean>;
+};
+
+/**
+ * Receives the built value of a valid form on `form.submit(handler)`
+ * @template T - The form data type
+ */
+export type SubmitHandler<T> = (value: FormValue<Form<T>>) => void | Promise<void>;
+
+/**
+ * Callbacks for walking a form tree; paths are dot-separated, e.g. `'items.0.qty'`
+ */
+type FormTreeVisitor = {
+  form: (form: Form<any>, path: string) => void;
+  control: (control: FormControl<any, any>, path: string) => void;
+};
+
+/**
+ * What a path passed to `validate(paths)` / `isValid(path)` points to
+ */
+type SubtreeTarget = {
+  node: Form<any> | FormControl<any, any>;
+  /** The normalized path of the node */
+  path: string;
+  /** The forms leading to the node, outermost first */
+  forms: Form<any>[];
 };
 
 /**
@@ -67,11 +272,10 @@ export class Form<T> extends BaseForm<T, Form<T>> {
   private readonly __form = true;
 
   /**
-   * Stores the original primitive control configuration for recreating the form
+   * Stores the primitive control configuration for recreating the form
    * @private
-   * @readonly
    */
-  private readonly __primitiveControls: AcceptedControls<T>;
+  private __primitiveControls: AcceptedControls<T>;
 
   /**
    * Tracks whether this form's initial readOnly was explicitly provided.
@@ -82,6 +286,32 @@ export class Form<T> extends BaseForm<T, Form<T>> {
    */
   private readonly __explicitReadOnly: boolean;
 
+  /**
+   * The options this form was created with, carried over when the form is recreated
+   * @private
+   * @readonly
+   */
+  private readonly __options: FormOptions<any>;
+
+  /**
+   * False while the constructor is still creating controls. Form-level validators
+   * are not run before that, since the built value would be incomplete.
+   * @private
+   */
+  private __controlsCreated = false;
+
+  /**
+   * Settings (locale, message catalogs, updateOn) shared with clones, controls and nested forms
+   * @private
+   */
+  private _formScope: Ref<FormScope>;
+
+  /**
+   * The messages key `_invalids` were rendered with
+   * @private
+   */
+  private _messagesKey?: string;
+
   /**
    * Reference to the parent FormControl if this form is nested
    * @private
@@ -101,10 +331,43 @@ export class Form<T> extends BaseForm<T, Form<T>> {
   private _flattenedControls: FormControl<any, T>[];
 
   /**
-   * Array of controls that are currently invalid
+   * Array of controls (and failed form-level validators) that are currently invalid
+   * @private
+   */
+  private _invalids: FormInvalid<T>[] = [];
+
+  /**
+   * Array of controls with failed warning-level validators, followed by
+   * failed form-level warnings
+   * @private
+   */
+  private _warnings: FormInvalid<T>[] = [];
+
+  /**
+   * Form-level validator state, shared between clones
+   * @private
+   */
+  private _formValidation: Ref<FormValidationState<any>>;
+
+  /**
+   * Async bookkeeping for form-level validators, shared between clones
+   * @private
+   */
+  private _asyncValidation: Ref<AsyncValidationState> = createAsyncValidationRef();
+
+  /**
+   * Submission state, shared between clones
+   * @private
+   */
+  private _submission: Ref<SubmissionState> = {
+    current: { submitting: false, submitted: false, submitCount: 0 },
+  };
+
+  /**
+   * Undo/redo history of the built value, shared between clones
    * @private
    */
-  private _invalids: FormControl<any, T>[] = [];
+  private _history?: History<FormValue<Form<T>>>;
 
   /**
    * Creates a new Form instance with FormControlPrimitiveMap configuration
@@ -116,7 +379,7 @@ export class Form<T> extends BaseForm<T, Form<T>> {
     controls: FormControlPrimitiveMap<T>,
     setState?: React.Dispatch<React.SetStateAction<Form<T>>>,
     parentControl?: FormControl<unknown, unknown>,
-    options?: FormOptions
+    options?: FormOptions<T>
   );
   /**
    * Creates a new Form instance with FormControlNonArrayPrimitiveMap configuration
@@ -127,7 +390,7 @@ export class Form<T> extends BaseForm<T, Form<T>> {
     controls: FormControlNonArrayPrimitiveMap<T>,
     setState?: React.Dispatch<React.SetStateAction<Form<T>>>,
     parentControl?: FormControl<unknown, unknown>,
-    options?: FormOptions
+    options?: FormOptions<T>
   );
   /**
    * Creates a new Form instance with FormControlMap configuration
@@ -138,59 +401,47 @@ export class Form<T> extends BaseForm<T, Form<T>> {
     controls: FormControlMap<T>,
     setState?: React.Dispatch<React.SetStateAction<Form<T>>>,
     parentControl?: FormControl<unknown, unknown>,
-    options?: FormOptions
+    options?: FormOptions<T>
   );
   constructor(
     controls: AcceptedControls<T>,
     setState?: React.Dispatch<React.SetStateAction<Form<T>>>,
     parentControl?: FormControl<unknown, unknown>,
-    options?: FormOptions
+    options?: FormOptions<T>
   ) {
     super(setState);
     if (parentControl) {
       this.__parentControl = parentControl;
     }
     this.__primitiveControls = controls;
+    this.__options = options ?? {};
+    this._formValidation = {
+      current: {
+        validators: [...(options?.validators ?? [])],
+        results: [],
+        valid: true,
+        pending: false,
+        serverResults: [],
+      },
+    };
+    this._formScope = createFormScope(options);
     const initialReadOnly = options?.readOnly ?? false;
     this.__explicitReadOnly = options?.readOnly !== undefined;
-    this._controls = createFormControls(controls, (updateAction) => {
-      if (typeof updateAction === "function") {
-        if (this._setState) {
-          this._setState((oldForm: any) => {
-            const nextForm = updateAction(oldForm);
-            if (nextForm && typeof nextForm.internalUpdate === "function") {
-              nextForm.internalUpdate();
-            }
-            return nextForm;
-          });
-        } else {
-          // Non-reactive path: evaluate updater against current instance and merge
-          const nextForm = updateAction(this as unknown as Form<T>);
-          Object.assign(this, nextForm);
-          this.internalUpdate();
-        }
-      } else {
-        if (this._setState) {
-          const nextForm = updateAction;
-          if (nextForm && typeof nextForm.internalUpdate === "function") {
-            nextForm.internalUpdate();
-          }
-          this._setState(nextForm);
-        } else {
-          // Non-reactive direct assignment path
-          Object.assign(this, updateAction);
-          this.internalUpdate();
-        }
-      }
-    });
+    this._controls = createFormControls(controls, (updateAction) =>
+      this.applyControlUpdate(updateAction)
+    );
     this._flattenedControls = Object.values(this._controls ?? {}) || [];
     this._dirty = false;
     this._touched = false;
     this._valid = true;
     this._readonly = initialReadOnly;
     this.initializeReadOnlyState(initialReadOnly);
+    this.__controlsCreated = true;
     // Ensure initial validity reflects control state (including invalid defaults)
     this.internalUpdate();
+    if (options?.history) {
+      this.recordHistory(options.history === true ? {} : options.history);
+    }
   }
 
   /**
@@ -248,179 +499,848 @@ export class Form<T> extends BaseForm<T, Form<T>> {
   }
 
   /**
-   * Gets the array of controls that are currently invalid
-   * @returns Array of invalid controls
+   * Gets the validation status of the form, nested forms included
+   * @returns `'pending'` while any async validator runs, otherwise `'invalid'` if this
+   * form or a nested form is invalid, otherwise `'valid'`
    */
-  get invalids(): FormControl<any, T>[] {
-    return this._invalids;
-  }
-
-  /**
-    * Gets whether the form passes all validation rules
-  */
-  public override get valid(): boolean {
-    // Always recalculate to keep in sync with child controls
-    this.internalUpdate();
-    return this._valid;
+  get status(): FormStatus {
+    const statuses = [
+      this._pending ? "pending" : this._valid ? "valid" : "invalid",
+      ...this.nestedForms().map((form) => form.status),
+    ];
+    return statuses.includes("pending")
+      ? "pending"
+      : statuses.includes("invalid")
+        ? "invalid"
+        : "valid";
   }
 
   /**
-   * Gets a specific control by its key
-   * @template K - The key type
-   * @param key - The key of the control to retrieve
-   * @returns The FormControl instance or undefined if not found
+   * Gets the array of controls that are currently invalid, followed by the
+   * results of any failed form-level validators
+   * @returns Array of invalid controls and failed form-level validator results
    */
-  public getControl<K extends keyof T>(
-    key: K
-  ): FormControl<T[K], T> | undefined {
-    return this._controls?.[key] as FormControl<T[K], T> | undefined;
+  get invalids(): FormInvalid<T>[] {
+    if (this._messagesKey !== messagesKey(this._formScope)) {
+      // The locale or a catalog changed; re-render form-level messages
+      this.internalUpdate();
+    }
+    return this._invalids;
   }
 
   /**
-   * Dynamically adds new controls to the form
-   * @template T - The type of controls being added
-   * @param controlMap - Map of new controls to add
-   * @throws {Error} If a control with the same key already exists
+   * Gets the controls with failed warning-level validators, followed by failed
+   * form-level warnings. Warnings never affect `valid`.
+   * @returns Array of controls and form-level validator results with warnings
    */
-  public addControls<T>(controlMap: AcceptedControls<T>): void {
-    const foundKey = Object.keys(controlMap).find(
-      (key) => key in this._controls
-    );
-    if (foundKey?.length > 0) {
-      console.dError(
-        `Form with controls:`,
-        this._controls,
-        `. Control with key: ${String(foundKey)} already exists.`
-      );
-      return;
+  get warnings(): FormInvalid<T>[] {
+    if (this._messagesKey !== messagesKey(this._formScope)) {
+      this.internalUpdate();
     }
-    const newControls = createFormControls(controlMap, (updateAction) => {
-      if (typeof updateAction === "function") {
-        if (this._setState) {
-          this._setState((oldForm: any) => {
-            const nextForm = updateAction(oldForm);
-            if (nextForm && typeof nextForm.internalUpdate === "function") {
-              nextForm.internalUpdate();
-            }
-            return nextForm;
-          });
-        } else {
-          const nextForm = updateAction(this as unknown as Form<T>);
-          Object.assign(this, nextForm);
-          this.internalUpdate();
-        }
-      } else {
-        if (this._setState) {
-          const nextForm = updateAction;
-          if (nextForm && typeof nextForm.internalUpdate === "function") {
-            nextForm.internalUpdate();
-          }
-          this._setState(updateAction);
-        } else {
-          Object.assign(this, updateAction);
-          this.internalUpdate();
-        }
-      }
-    });
-    this._controls = Object.assign(this._controls, newControls);
-    this._flattenedControls = Object.values(this._controls ?? {}) || [];
-    this.internalUpdate();
+    return this._warnings;
   }
 
   /**
-   * Gets the read-only state of the form
-   * @returns True if the form is read-only
+   * Gets the locale used to render this form's validation messages
+   * (its own, a parent form's or the global `Messages` locale)
    */
-  override get readonly(): boolean {
-    return this._readonly;
+  get locale(): string {
+    return resolveLocale(this._formScope);
   }
 
   /**
-   * Sets the read-only state of the form and all its controls
-   * @param value - True to make the form read-only, false otherwise
+   * Sets the locale of this form and its nested forms. Messages are re-rendered
+   * without re-running any validator.
    */
-  override set readonly(value: boolean) {
-    this._readonly = value;
-    this._flattenedControls.forEach((control) => (control.readonly = value));
-    console.dLog(
-      `Form with controls:`,
-      this._controls,
-      `set to readonly: ${value}`
-    );
-    // Use clone to ensure React detects the change
+  set locale(locale: string) {
+    this._formScope.current.locale = locale;
+    this.internalUpdate();
     this.propagate(this.clone());
   }
 
   /**
-   * Gets the disabled state of the form
-   * @returns True if the form is disabled
+   * Gets when controls re-run their validators: this form's `updateOn` option,
+   * otherwise a parent form's, otherwise `'change'`
    */
-  override get disabled(): boolean {
-    return this._disabled;
+  get updateOn(): UpdateOn {
+    return resolveScoped(this._formScope, "updateOn") ?? "change";
   }
 
   /**
-   * Sets the disabled state of the form and all its controls
-   * @param value - True to disable the form, false to enable it
+   * Gets the active validation groups of this form (its own or a parent form's).
+   * Grouped validators only affect `valid`, `invalids` and `errors` while one of
+   * their groups is active.
    */
-  override set disabled(value: boolean) {
-    this._disabled = value;
-    this._flattenedControls.forEach((control) => (control.disabled = value));
-    console.dLog(
-      `Form with controls:`,
-      this._controls,
-      `set to disabled: ${value}`
-    );
-    // Use clone to ensure React detects the change
-    this.propagate(this.clone());
+  get activeGroups(): readonly string[] {
+    return resolveScoped(this._formScope, "groups") ?? [];
   }
 
   /**
-   * Sets readonly/disabled state on form and controls without triggering propagation.
-   * Used internally when assigning forms to arrays to avoid callstack issues.
-   * @param readonly - The readonly state to set
-   * @param disabled - The disabled state to set
-   * @internal
+   * Re-runs the validators of every control, nested form and form-level validator now,
+   * regardless of `updateOn`
+   * @param opts - Options for the validation
+   * @param opts.stateless - If true, skips React state propagation (default: false)
+   * @param opts.groups - Validation groups to activate (replacing the active ones)
+   * before validating, e.g. `['publish']`; `[]` goes back to ungrouped validators only
+   * @returns The form's validity (see `valid`); false while async validators are pending
+   *
+   * @example
+   * ```typescript
+   * const form = formGroup({ email: ['', [Validators.required]] }, { updateOn: 'submit' });
+   * form.controls.email.value = ''; // not validated yet
+   * form.validate(); // false
+   *
+   * const doc = formGroup({ title: ['', [Validators.group('publish', Validators.required)]] });
+   * doc.validate(); // true, a draft may be saved
+   * doc.validate({ groups: ['publish'] }); // false
+   * ```
    */
-  public setStateWithoutPropagation(
-    readonly: boolean,
-    disabled: boolean
-  ): void {
-    super.setStateWithoutPropagation(readonly, disabled);
-    this._flattenedControls.forEach((control) => {
-      control.setStateWithoutPropagation(readonly, disabled);
-    });
+  public validate(opts?: { stateless?: boolean; groups?: readonly string[] }): boolean;
+  /**
+   * Re-runs the validators below the given paths only (a control, a nested form or a
+   * form-array item, plus everything nested inside), regardless of `updateOn`
+   * @param paths - Control paths, e.g. `['address', 'items.0.qty']`; `''` is the whole form
+   * @param opts - Options for the validation
+   * @param opts.stateless - If true, skips React state propagation (default: false)
+   * @returns A report of the paths that failed; unknown paths are reported as failed
+   *
+   * @example
+   * ```typescript
+   * form.validate(['address', 'terms']);
+   * // { valid: false, pending: false, failed: ['address.zip'] }
+   * ```
+   */
+  public validate(paths: readonly string[], opts?: { stateless?: boolean }): ValidationReport;
+  public validate(
+    pathsOrOpts: readonly string[] | { stateless?: boolean; groups?: readonly string[] } = {},
+    pathOpts: { stateless?: boolean } = {}
+  ): boolean | ValidationReport {
+    if (Array.isArray(pathsOrOpts)) {
+      return this.validatePaths(pathsOrOpts, pathOpts);
+    }
+    const opts = pathsOrOpts as { stateless?: boolean; groups?: readonly string[] };
+    if (opts.groups) {
+      this._formScope.current.groups = [...opts.groups];
+    }
+    this._flattenedControls.forEach((control) => control.validate({ stateless: true }));
+    this._formValidation.current.snapshot = undefined;
+    this.internalUpdate();
+    if (!opts.stateless) {
+      this.propagate(this.clone());
+    }
+    return this._valid;
   }
 
   /**
-   * Resets all controls in the form to their initial state
+   * Checks whether everything below a path (a control, a nested form or a form-array
+   * item, including nested forms) is valid, without re-running any validator.
+   * Unlike `valid`, which only covers this form's own controls, nested forms count.
+   * @param path - A control path, e.g. `'address'` or `'items[0].qty'`; defaults to the whole form
+   * @returns True if nothing below the path failed and no async validator is pending;
+   * false for unknown paths
+   *
+   * @example
+   * ```typescript
+   * const canContinue = form.isValid('shipping.address');
+   * ```
    */
-  public reset(): void {
-    this._flattenedControls.forEach((control) => control.reset());
-    console.dLog(`Form with controls:`, this._controls, `has been reset.`);
-    this.internalUpdate();
+  public isValid(path: string = ""): boolean {
+    const target = this.resolveSubtree(path);
+    if (!target) {
+      console.dError(`Form with controls:`, this._controls, `. No control found for path: ${path}`);
+      return false;
+    }
+    return this.reportFor([target]).valid;
   }
 
   /**
-   * Partially updates the form's values
-   * @param values - Partial object with values to update
+   * Applies errors reported by a server, routing each one by path to the control, nested
+   * form or form-array item it belongs to. Server errors count toward `valid` and show up
+   * in `invalids` and `errors` until the value they refer to next changes. Errors for a
+   * path pointing at a form (`''`, a nested form or a form-array item) become form-level
+   * errors of that form, which expire when one of its controls changes. Replaces all
+   * earlier server errors; pass `{}` to remove them.
+   * @param errors - Errors keyed by path, e.g. `{ 'items[2].quantity': 'Only 3 left.' }`
+   * @param opts - Options for the update
+   * @param opts.stateless - If true, skips React state propagation (default: false)
    *
    * @example
    * ```typescript
-   * userForm.patchValue({ name: 'John Doe' });
+   * await form.submit(async (value) => {
+   *   const response = await api.save(value);
+   *   if (!response.ok) {
+   *     form.setServerErrors(response.errors); // { 'address.zip': 'Unknown ZIP code.' }
+   *   }
+   * });
    * ```
    */
-  public patchValue(
-    values: Partial<{ [K in keyof T]: T[K] }>,
-    opts?: PatchValueProps
-  ): void {
-    for (const key in values) {
-      const controlKey = this._controls?.[key];
-      if (controlKey) {
-        console.dLog(
-          `Patching value for key: ${key} with value: ${values[key]}`
-        );
-        if (Form.isForm(controlKey.value)) {
+  public setServerErrors(errors: ServerErrors, opts: { stateless?: boolean } = {}): void {
+    const forms: Form<any>[] = [];
+    this.visit("", {
+      form: (form) => {
+        form._formValidation.current.serverResults = [];
+        forms.push(form);
+      },
+      control: (control) => control.setServerErrors([], { stateless: true }),
+    });
+
+    const byTarget = new Map<Form<any> | FormControl<any, any>, ServerError[]>();
+    for (const path of Object.keys(errors)) {
+      const entry = errors[path]!;
+      const list = Array.isArray(entry) ? entry : [entry];
+      let node = this.resolveSubtree(path)?.node;
+      if (!node) {
+        console.dError(`Form with controls:`, this._controls, `. No control found for path: ${path}`);
+        // Keep the error visible on the form rather than dropping it
+        node = this;
+      } else if (FormControl.isFormControl(node) && Form.isForm(node.value)) {
+        node = node.value;
+      }
+      byTarget.set(node, [...(byTarget.get(node) ?? []), ...list]);
+    }
+
+    byTarget.forEach((list, node) => {
+      if (Form.isForm(node)) {
+        const state = node._formValidation.current;
+        state.serverResults = toServerResults(list);
+        state.serverSnapshot = node._flattenedControls.map((control) => unwrapValue(control.value));
+      } else {
+        node.setServerErrors(list, { stateless: true });
+      }
+    });
+
+    // Descendants first, so every form sees the final state of the forms it contains
+    forms.reverse().forEach((form) => form.internalUpdate());
+    if (!opts.stateless) {
+      this.propagate(this.clone());
+    }
+  }
+
+  /**
+   * Checks whether the form passes its ungrouped validators and those of the given
+   * groups (like `valid`, but regardless of the active groups), based on the last
+   * validation run
+   * @param groups - A validation group or a list of groups, e.g. `'publish'`
+   * @returns The validity for those groups; false while async validators are pending
+   *
+   * @example
+   * ```typescript
+   * form.valid // true: the draft can be saved
+   * form.validFor('publish') // false: required publish fields are missing
+   * ```
+   */
+  public validFor(groups: string | readonly string[]): boolean {
+    this.internalUpdate();
+    const formValidation = this._formValidation.current;
+    return (
+      this._flattenedControls.every((control) => control.validFor(groups)) &&
+      !formValidation.pending &&
+      resultsAreValid(
+        [...formValidation.results, ...formValidation.serverResults],
+        typeof groups === "string" ? [groups] : groups
+      )
+    );
+  }
+
+  /**
+   * Registers (or extends) a message catalog on this form. Form catalogs take
+   * precedence over global ones and are inherited by nested forms.
+   * @param locale - A BCP 47 locale tag, e.g. `'de'`
+   * @param catalog - Messages keyed by error code
+   */
+  public registerMessages(locale: string, catalog: MessageCatalog): void {
+    mergeCatalog(this._formScope.current.catalogs, locale, catalog);
+    touchMessages();
+    this.internalUpdate();
+    this.propagate(this.clone());
+  }
+
+  /**
+   * Makes this (nested) form fall back to the settings of its parent form
+   * @param parent - The parent form's scope
+   * @internal
+   */
+  public inheritFormScope(parent: Ref<FormScope>): void {
+    if (parent !== this._formScope) {
+      this._formScope.current.parent = parent;
+    }
+  }
+
+  /**
+   * Gets the results of the last form-level validation run (one entry per settled validator)
+   * @returns Array of validator/result pairs
+   */
+  get formInvalids(): FormValidationResult[] {
+    return this._formValidation.current.results;
+  }
+
+  /**
+   * Gets the errors of every invalid control in the tree (including nested forms and
+   * arrays of forms) keyed by path. Form-level errors are listed under the form's own
+   * path; the root form uses the empty path `''`.
+   * @returns The aggregated errors, empty when the form has no errors
+   *
+   * @example
+   * ```typescript
+   * form.errors
+   * // { 'name': { required: {...} }, 'address.zip': { pattern: {...} }, '': { passwordsMatch: {...} } }
+   * ```
+   */
+  get errors(): FormErrors {
+    const errors: FormErrors = {};
+    this.collectErrors("", errors);
+    return errors;
+  }
+
+  /**
+   * Checks whether the form (or the control at `path`) fails the rule with the given code
+   * @param code - The error code, e.g. `'required'`
+   * @param path - Dot-separated control path, e.g. `'address.zip'`; defaults to the form itself
+   * @returns True if an error with that code exists
+   */
+  public hasError(code: string, path: string = ""): boolean {
+    return this.getError(code, path) !== undefined;
+  }
+
+  /**
+   * Gets the error with the given code of the form (or of the control at `path`)
+   * @param code - The error code, e.g. `'minLength'`
+   * @param path - Dot-separated control path, e.g. `'items.0.name'`; defaults to the form itself
+   * @returns The error (code, message and params) or undefined
+   */
+  public getError(code: string, path: string = ""): ValidationError | undefined {
+    const errors = ownEntry(this.errors, path);
+    return errors ? ownEntry(errors, code) : undefined;
+  }
+
+  /**
+   * Checks if a specific form-level validator is applied to the form
+   * @param validator - The validator function to check
+   * @returns True if the validator is applied, false otherwise
+   */
+  public hasValidator(validator: ValidatorFn<T>): boolean {
+    return this._formValidation.current.validators.includes(validator);
+  }
+
+  /**
+   * Adds a form-level validator and recalculates validity
+   * @param validator - The validator function to add
+   */
+  public addValidator(validator: ValidatorFn<T>): void {
+    this._formValidation.current.validators.push(validator);
+    this.recalculateFormValidity();
+  }
+
+  /**
+   * Removes a form-level validator and recalculates validity
+   * @param validator - The validator function to remove
+   */
+  public removeValidator(validator: ValidatorFn<T>): void {
+    const state = this._formValidation.current;
+    state.validators = state.validators.filter((v) => v !== validator);
+    this.recalculateFormValidity();
+  }
+
+  /**
+   * Forces the form-level validators to re-run and propagates the change
+   */
+  private recalculateFormValidity(): void {
+    this._formValidation.current.snapshot = undefined;
+    this.internalUpdate();
+    this.propagate(this.clone());
+  }
+
+  /**
+    * Gets whether the form passes all validation rules
+  */
+  public override get valid(): boolean {
+    // Always recalculate to keep in sync with child controls
+    this.internalUpdate();
+    return this._valid;
+  }
+
+  /**
+   * Waits until every validation run (including async validators) has settled, in this
+   * form, its nested forms and form-array items
+   * @returns A promise resolving to the final validity of the whole tree (see `isValid()`)
+   */
+  public async whenSettled(): Promise<boolean> {
+    const results = await Promise.all([
+      ...Object.values<FormControl<any, T>>(this._controls ?? {}).map((control) =>
+        control.whenSettled()
+      ),
+      ...this.nestedForms().map((form) => form.whenSettled()),
+      this.whenFormValidatorsSettled(),
+    ]);
+    return results.every(Boolean) && this.isValid();
+  }
+
+  /**
+   * Gets a specific control by its key
+   * @template K - The key type
+   * @param key - The key of the control to retrieve
+   * @returns The FormControl instance or undefined if not found
+   */
+  public getControl<K extends keyof T>(
+    key: K
+  ): FormControlMap<T>[K] | undefined {
+    return this._controls?.[key];
+  }
+
+  /**
+   * Gets the control at a path through nested forms and form arrays
+   * @param path - A dot-separated path, e.g. `'address.street'` or `'items.0.name'`
+   * @returns The control, or undefined if there is none at the path (form-array items
+   * that are forms and values inside a plain object have no control of their own)
+   *
+   * @example
+   * ```typescript
+   * form.get('address.street')?.markAsTouched();
+   * ```
+   */
+  public get<P extends Path<T>>(path: P): FormControl<PathValue<T, P>, any> | undefined {
+    const target = this.resolveSubtree(path);
+    return target && FormControl.isFormControl(target.node)
+      ? (target.node as FormControl<PathValue<T, P>, any>)
+      : undefined;
+  }
+
+  /**
+   * Gets the value at a path through nested forms, form arrays and plain objects.
+   * Nested forms are returned built.
+   * @param path - A dot-separated path, e.g. `'address.street'` or `'items.0'`
+   * @returns The value, or undefined if nothing exists at the path
+   *
+   * @example
+   * ```typescript
+   * form.getValue('items.0.name'); // 'Pen'
+   * form.getValue('address'); // { street: 'Main St', zip: '12345' }
+   * ```
+   */
+  public getValue<P extends Path<T>>(path: P): FormValue<PathValue<T, P>> {
+    return unwrapValue(resolvePath(this, parsePath(path)).value) as FormValue<PathValue<T, P>>;
+  }
+
+  /**
+   * Replaces the whole form value. Every control must be given a value: nested forms
+   * are set the same way, form arrays gain or lose items to match the incoming data.
+   * Unlike `patchValue`, a value of the wrong shape is not ignored key by key; nothing
+   * is set and an error lists every missing and unknown key.
+   * @param value - The new form value, shaped like `build()`
+   * @param opts - Options for the update
+   * @param opts.stateless - If true, skips React state propagation (default: false)
+   * @param opts.markAsDirty - If false, does not mark the controls as dirty (default: true)
+   * @param opts.markAsTouched - If false, does not mark the controls as touched (default: true)
+   * @throws {Error} If the value misses a key, has a key without a control, does not
+   * match the nesting of the form, or has object items for a form array created
+   * without items or an `itemForm` (it has no form to create them from)
+   *
+   * @example
+   * ```typescript
+   * form.setValue({
+   *   email: 'ada@example.com',
+   *   items: [{ name: 'Pen', qty: 1 }, { name: 'Ink', qty: 2 }],
+   * });
+   * ```
+   */
+  public setValue(value: FormValue<Form<T>>, opts?: PatchValueProps): void;
+  /**
+   * Sets the value at a path through nested forms, form arrays and plain objects.
+   * Setting a nested form (or form-array item) from plain data patches its controls,
+   * setting a form array from plain data resizes it and sets its items like
+   * `setValue(value)`, and setting a field inside a plain object value replaces that
+   * value with an updated copy.
+   * @param path - A dot-separated path, e.g. `'address.street'` or `'items.0.name'`
+   * @param value - The new value
+   * @param opts - Options for the update
+   * @param opts.stateless - If true, skips React state propagation (default: false)
+   * @param opts.markAsDirty - If false, does not mark the control as dirty (default: true)
+   * @param opts.markAsTouched - If false, does not mark the control as touched (default: true)
+   * @throws {Error} If nothing exists at the path, or form-array data does not match
+   * the shape of its item forms
+   *
+   * @example
+   * ```typescript
+   * form.setValue('items.0.name', 'Pencil');
+   * form.setValue('address', { street: 'Side St', zip: '54321' });
+   * ```
+   */
+  public setValue<P extends Path<T>>(
+    path: P,
+    value: PathValue<T, P> | FormValue<PathValue<T, P>>,
+    opts?: PatchValueProps
+  ): void;
+  public setValue(
+    pathOrValue: unknown,
+    valueOrOpts?: unknown,
+    opts?: PatchValueProps
+  ): void {
+    if (typeof pathOrValue !== "string") {
+      const issues = Form.shapeIssues(this, pathOrValue, "");
+      if (issues.length > 0) {
+        throw new Error(`Cannot set form value: ${issues.join("; ")}`);
+      }
+      this.replaceValue(
+        pathOrValue as Record<string, unknown>,
+        valueOrOpts as PatchValueProps | undefined
+      );
+      return;
+    }
+    const path = pathOrValue;
+    const value = valueOrOpts;
+    const { node, rest } = this.locate(parsePath(path));
+    const form = Form.isForm(node) ? node : node.value;
+    if (Form.isForm(form)) {
+      if (rest.length > 0) {
+        throw new Error(`No control found for path: ${path}`);
+      }
+      if (form === node || !Form.isForm(value)) {
+        form.patchValue(Form.isForm(value) ? value.build() : (value as Partial<any>), opts);
+        return;
+      }
+    }
+    const control = node as FormControl<any, any>;
+    const template = control.formArrayTemplate();
+    if (
+      template &&
+      rest.length === 0 &&
+      Array.isArray(value) &&
+      value.some((item) => !Form.isForm(item))
+    ) {
+      // Plain data for a form array sets its item forms, like setValue(value)
+      const issues = Form.itemIssues(control, template, value, path);
+      if (issues.length > 0) {
+        throw new Error(`Cannot set ${path}: ${issues.join("; ")}`);
+      }
+      Form.replaceItems(control, template, value, opts);
+      return;
+    }
+    const updated = setIn(control.value, rest, value);
+    if (!updated.found) {
+      throw new Error(`No control found for path: ${path}`);
+    }
+    control.setValue(updated.value, opts);
+  }
+
+  /**
+   * Dynamically adds new controls to the form
+   * @template T - The type of controls being added
+   * @param controlMap - Map of new controls to add
+   * @throws {Error} If a control with the same key already exists
+   */
+  public addControls<T>(controlMap: AcceptedControls<T>): void {
+    const foundKey = Object.keys(controlMap).find(
+      (key) => key in this._controls
+    );
+    if (foundKey?.length > 0) {
+      console.dError(
+        `Form with controls:`,
+        this._controls,
+        `. Control with key: ${String(foundKey)} already exists.`
+      );
+      return;
+    }
+    const newControls = createFormControls(controlMap, (updateAction) =>
+      this.applyControlUpdate(updateAction)
+    );
+    this._controls = Object.assign(this._controls, newControls);
+    this._flattenedControls = Object.values(this._controls ?? {}) || [];
+    this.internalUpdate();
+    this._history?.clear(this.build());
+  }
+
+  /**
+   * Removes an optional control, e.g. a section that only applies to some accounts.
+   * The control no longer counts toward validity and is left out of `build()`.
+   * @param key - The key of the control to remove
+   *
+   * @example
+   * ```typescript
+   * if (accountType === 'personal') form.removeControl('company');
+   * ```
+   */
+  public removeControl<K extends OptionalKeys<T>>(key: K): void {
+    if (!(key in this._controls)) {
+      console.dError(
+        `Form with controls:`,
+        this._controls,
+        `. No control found for key: ${String(key)}.`
+      );
+      return;
+    }
+    const { [key]: removed, ...controls } = this._controls;
+    const { [key]: _template, ...primitiveControls } = this.__primitiveControls;
+    removed.detach();
+    this.updateControls(controls as FormControlMap<T>, primitiveControls as AcceptedControls<T>);
+  }
+
+  /**
+   * Replaces an existing control with one created from a template. The new control
+   * inherits the form's readonly/disabled state (nested forms keep an explicit `readOnly`).
+   * @param key - The key of the control to replace
+   * @param template - The control template, as in the form template
+   *
+   * @example
+   * ```typescript
+   * form.replaceControl('company', formGroup<Company>({ name: ['', Validators.required] }));
+   * ```
+   */
+  public replaceControl<K extends keyof T>(key: K, template: ControlTemplate<T, K>): void {
+    if (!(key in this._controls)) {
+      console.dError(
+        `Form with controls:`,
+        this._controls,
+        `. No control found for key: ${String(key)}.`
+      );
+      return;
+    }
+    this.setControl(key, template);
+  }
+
+  /**
+   * Sets the control of a key from a template, adding the control if the key has none
+   * and replacing it otherwise (see `replaceControl`)
+   * @param key - The key of the control
+   * @param template - The control template, as in the form template
+   */
+  public setControl<K extends keyof T>(key: K, template: ControlTemplate<T, K>): void {
+    const created = createFormControls(
+      { [key]: template } as AcceptedControls<T>,
+      (updateAction) => this.applyControlUpdate(updateAction)
+    )[key];
+    this.inheritState(created);
+    this._controls[key]?.detach();
+    this.updateControls(
+      { ...this._controls, [key]: created },
+      { ...this.__primitiveControls, [key]: template } as AcceptedControls<T>
+    );
+  }
+
+  /**
+   * Gets the read-only state of the form
+   * @returns True if the form is read-only
+   */
+  override get readonly(): boolean {
+    return this._readonly;
+  }
+
+  /**
+   * Sets the read-only state of the form and all its controls
+   * @param value - True to make the form read-only, false otherwise
+   */
+  override set readonly(value: boolean) {
+    this._readonly = value;
+    this._flattenedControls.forEach((control) => (control.readonly = value));
+    console.dLog(
+      `Form with controls:`,
+      this._controls,
+      `set to readonly: ${value}`
+    );
+    // Use clone to ensure React detects the change
+    this.propagate(this.clone());
+  }
+
+  /**
+   * Gets the disabled state of the form
+   * @returns True if the form is disabled
+   */
+  override get disabled(): boolean {
+    return this._disabled;
+  }
+
+  /**
+   * Sets the disabled state of the form and all its controls
+   * @param value - True to disable the form, false to enable it
+   */
+  override set disabled(value: boolean) {
+    this._disabled = value;
+    this._flattenedControls.forEach((control) => (control.disabled = value));
+    console.dLog(
+      `Form with controls:`,
+      this._controls,
+      `set to disabled: ${value}`
+    );
+    // Use clone to ensure React detects the change
+    this.propagate(this.clone());
+  }
+
+  /**
+   * Sets readonly/disabled state on form and controls without triggering propagation.
+   * Used internally when assigning forms to arrays to avoid callstack issues.
+   * @param readonly - The readonly state to set
+   * @param disabled - The disabled state to set
+   * @internal
+   */
+  public setStateWithoutPropagation(
+    readonly: boolean,
+    disabled: boolean
+  ): void {
+    super.setStateWithoutPropagation(readonly, disabled);
+    this._flattenedControls.forEach((control) => {
+      control.setStateWithoutPropagation(readonly, disabled);
+    });
+  }
+
+  /**
+   * Gets whether a submit handler is currently running
+   */
+  get submitting(): boolean {
+    return this._submission.current.submitting;
+  }
+
+  /**
+   * Gets whether `submit()` has completed at least once (valid or not) since the last reset
+   */
+  get submitted(): boolean {
+    return this._submission.current.submitted;
+  }
+
+  /**
+   * Gets how many times `submit()` has completed since the last reset
+   */
+  get submitCount(): number {
+    return this._submission.current.submitCount;
+  }
+
+  /**
+   * Gets the error thrown (or rejected) by the submit handler of the last submission
+   */
+  get submitError(): unknown {
+    return this._submission.current.error;
+  }
+
+  /**
+   * Submits the form: marks every control (including nested ones) as touched, runs all
+   * validators regardless of `updateOn`, waits for async ones and, if the whole tree is
+   * valid (see `isValid()`), calls `handler` with the built value. `submitting` is true until the handler settles;
+   * afterwards `submitted` and `submitCount` are updated. An error thrown by the handler
+   * is captured in `submitError` instead of being rethrown. While a submission is in
+   * progress, further calls return the same promise.
+   * @param handler - Receives the built value of the valid form
+   * @returns A promise resolving to true if the handler ran without error
+   *
+   * @example
+   * ```tsx
+   * <button disabled={form.submitting} onClick={() => form.submit((value) => api.save(value))}>
+   *   Save
+   * </button>
+   * {form.submitError ? <p>Saving failed</p> : null}
+   * ```
+   */
+  public submit(handler: SubmitHandler<T>): Promise<boolean> {
+    const state = this._submission.current;
+    if (!state.inFlight) {
+      state.inFlight = this.runSubmission(handler).finally(() => {
+        state.inFlight = undefined;
+      });
+    }
+    return state.inFlight;
+  }
+
+  /**
+   * Validates the touched form and runs the submit handler if it is valid
+   * @private
+   */
+  private async runSubmission(handler: SubmitHandler<T>): Promise<boolean> {
+    const state = this._submission.current;
+    state.submitting = true;
+    state.error = undefined;
+    this.visit("", {
+      form: () => undefined,
+      control: (control) => control.markAsTouched({ stateless: true }),
+    });
+    this.validate({ stateless: true });
+    this.propagateLatest();
+
+    let succeeded = false;
+    try {
+      if (await this.whenSettled()) {
+        await handler(this.build());
+        succeeded = true;
+      }
+    } catch (error) {
+      state.error = error;
+    } finally {
+      state.submitting = false;
+      state.submitted = true;
+      state.submitCount++;
+      this.propagateLatest();
+    }
+    return succeeded;
+  }
+
+  /**
+   * Resets all controls in the form to their initial state, along with the
+   * submission state (`submitted`, `submitCount`, `submitError`)
+   */
+  public reset(): void {
+    const submission = this._submission.current;
+    submission.submitted = false;
+    submission.submitCount = 0;
+    submission.error = undefined;
+    this._formValidation.current.serverResults = [];
+    this._flattenedControls.forEach((control) => control.reset());
+    console.dLog(`Form with controls:`, this._controls, `has been reset.`);
+    this.internalUpdate();
+  }
+
+  /**
+   * Whether `undo()` has a step to revert (always false without the `history` option)
+   */
+  get canUndo(): boolean {
+    return this._history?.canUndo ?? false;
+  }
+
+  /**
+   * Whether `redo()` has an undone step to re-apply (always false without the `history` option)
+   */
+  get canRedo(): boolean {
+    return this._history?.canRedo ?? false;
+  }
+
+  /**
+   * Reverts the last recorded step, restoring the whole value (nested forms and form-array
+   * items included) the way `setValue(value)` does. Requires the `history` option.
+   *
+   * @example
+   * ```typescript
+   * const form = formGroup({ title: '' }, { history: true });
+   * form.controls.title.value = 'Draft';
+   * form.undo(); // title is '' again
+   * form.redo(); // title is 'Draft' again
+   * ```
+   */
+  public undo(): void {
+    this.restoreHistory(this._history?.undo());
+  }
+
+  /**
+   * Re-applies the last step reverted by `undo()`. Any new change drops the undone steps.
+   */
+  public redo(): void {
+    this.restoreHistory(this._history?.redo());
+  }
+
+  /**
+   * Partially updates the form's values
+   * @param values - Partial object with values to update
+   *
+   * @example
+   * ```typescript
+   * userForm.patchValue({ name: 'John Doe' });
+   * ```
+   */
+  public patchValue(
+    values: Partial<{ [K in keyof T]: T[K] }>,
+    opts?: PatchValueProps
+  ): void {
+    for (const key in values) {
+      const controlKey = this._controls?.[key];
+      if (controlKey) {
+        console.dLog(
+          `Patching value for key: ${key} with value: ${values[key]}`
+        );
+        if (Form.isForm(controlKey.value)) {
           (controlKey.value as Form<any>).patchValue(
             values[key] as Partial<any>,
             opts
@@ -453,8 +1373,8 @@ export class Form<T> extends BaseForm<T, Form<T>> {
    * // Returns: { name: 'John', email: 'john@example.com', age: 30 }
    * ```
    */
-  public build(): T {
-    const result = {} as T;
+  public build(): FormValue<Form<T>> {
+    const result = {} as any;
     for (const key in this._controls) {
       const value = this._controls[key].value;
       if (
@@ -503,6 +1423,557 @@ export class Form<T> extends BaseForm<T, Form<T>> {
     return obj && obj.__form === true;
   }
 
+  /**
+   * Visits this form and its descendants depth-first: each form before its controls,
+   * each control before the nested forms (or form-array items) it holds
+   * @private
+   */
+  private visit(path: string, visitor: FormTreeVisitor): void {
+    visitor.form(this, path);
+    for (const key in this._controls) {
+      const control = this._controls[key] as FormControl<any, T>;
+      Form.visitControl(control, path ? `${path}.${key}` : key, visitor);
+    }
+  }
+
+  /**
+   * Lists every way a value does not match the shape of a form: missing keys, keys
+   * without a control, and nested forms or form arrays given something other than an
+   * object or an array
+   * @private
+   */
+  private static shapeIssues(form: Form<any>, value: unknown, path: string): string[] {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return [`expected an object for ${path || "the form"}`];
+    }
+    const at = (key: string) => (path ? `${path}.${key}` : key);
+    const issues: string[] = [];
+    for (const key in form._controls) {
+      if (!(key in value)) {
+        issues.push(`missing value for ${at(key)}`);
+        continue;
+      }
+      const control = form._controls[key];
+      const next = (value as Record<string, unknown>)[key];
+      const template = control.formArrayTemplate();
+      if (Form.isForm(control.value)) {
+        issues.push(...Form.shapeIssues(control.value, next, at(key)));
+      } else if (template) {
+        issues.push(...Form.itemIssues(control, template, next, at(key)));
+      } else if (FormArray.isFormArray(control) && Array.isArray(next)) {
+        // A form array created without items or an `itemForm` has nothing to create items from
+        next.forEach((item, index) => {
+          if (
+            typeof item === "object" &&
+            item !== null &&
+            Object.getPrototypeOf(item) === Object.prototype
+          ) {
+            issues.push(`no item form to create ${at(key)}.${index} from`);
+          }
+        });
+      }
+    }
+    for (const key of Object.keys(value)) {
+      if (!(key in form._controls)) {
+        issues.push(`no control found for ${at(key)}`);
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Lists every way the items of a value do not match the item forms of a form array
+   * @param template - The form new items are created from
+   * @private
+   */
+  private static itemIssues(
+    control: FormControl<any, any>,
+    template: Form<any>,
+    value: unknown,
+    path: string
+  ): string[] {
+    if (!Array.isArray(value)) {
+      return [`expected an array for ${path}`];
+    }
+    const items = control.value as unknown[];
+    return value.flatMap((item, index) => {
+      const itemForm = Form.isForm(items[index]) ? items[index] : template;
+      return Form.shapeIssues(itemForm, item, `${path}.${index}`);
+    });
+  }
+
+  /**
+   * Sets every control from a value already checked by {@link Form.shapeIssues},
+   * resizing form arrays before their items are set
+   * @private
+   */
+  private replaceValue(value: Record<string, unknown>, opts?: PatchValueProps): void {
+    for (const key in this._controls) {
+      const control = this._controls[key];
+      const next = value[key];
+      const template = control.formArrayTemplate();
+      if (Form.isForm(control.value)) {
+        control.value.replaceValue(next as Record<string, unknown>, opts);
+      } else if (template) {
+        Form.replaceItems(control, template, next as Array<Record<string, unknown>>, opts);
+      } else {
+        control.setValue(next as any, opts);
+      }
+    }
+  }
+
+  /**
+   * Sets the items of a form array from data already checked by {@link Form.itemIssues},
+   * creating or dropping item forms to match its length
+   * @param template - The form new items are created from
+   * @private
+   */
+  private static replaceItems(
+    control: FormControl<any, any>,
+    template: Form<any>,
+    data: Array<Record<string, unknown>>,
+    opts?: PatchValueProps
+  ): void {
+    const items = control.value as unknown[];
+    if (items.length !== data.length) {
+      const resized = data.map((_, index) =>
+        Form.isForm(items[index])
+          ? items[index]
+          : new Form(
+              template.__primitiveControls,
+              undefined,
+              undefined,
+              recreatedFormOptions(template)
+            )
+      );
+      control.setValue(resized, opts);
+    }
+    // Items added above are hooked into the latest control
+    const forms = control.latest.value as Array<Form<any>>;
+    data.forEach((item, index) => forms[index].replaceValue(item, opts));
+  }
+
+  /**
+   * Visits a control and the nested forms (or form-array items) it holds
+   * @private
+   */
+  private static visitControl(
+    control: FormControl<any, any>,
+    path: string,
+    visitor: FormTreeVisitor
+  ): void {
+    visitor.control(control, path);
+    const value = control.value;
+    if (Form.isForm(value)) {
+      value.visit(path, visitor);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        if (Form.isForm(item)) {
+          item.visit(`${path}.${index}`, visitor);
+        }
+      });
+    }
+  }
+
+  /**
+   * Gets the failed form-level validator results of the last update
+   * @private
+   */
+  private failedFormResults(): FormValidationResult[] {
+    return this._invalids.filter(
+      (entry): entry is FormValidationResult => !FormControl.isFormControl(entry)
+    );
+  }
+
+  /**
+   * Collects this form's errors and those of its descendants into `into`, keyed by path
+   * @private
+   */
+  private collectErrors(path: string, into: FormErrors): void {
+    this.visit(path, {
+      form: (form, formPath) => {
+        form.internalUpdate();
+        const formErrors = toValidationErrors(form.failedFormResults());
+        if (Object.keys(formErrors).length > 0) {
+          into[formPath] = { ...formErrors, ...ownEntry(into, formPath) };
+        }
+      },
+      control: (control, controlPath) => {
+        const controlErrors = control.errors;
+        if (Object.keys(controlErrors).length > 0) {
+          into[controlPath] = controlErrors;
+        }
+      },
+    });
+  }
+
+  /**
+   * Follows path segments through controls, nested forms and form-array items as far
+   * as they go
+   * @returns The deepest form, control or form-array item reached, the forms leading
+   * there (outermost first) and the segments left over (into a plain value or missing)
+   * @private
+   */
+  private locate(segments: string[]): Omit<SubtreeTarget, "path"> & { rest: string[] } {
+    let node: Form<any> | FormControl<any, any> = this;
+    const forms: Form<any>[] = [this];
+    for (let index = 0; index < segments.length; index++) {
+      const segment = segments[index]!;
+      const rest = segments.slice(index);
+      if (FormControl.isFormControl(node) && Array.isArray(node.value)) {
+        const item: unknown = /^\d+$/.test(segment) ? node.value[Number(segment)] : undefined;
+        if (Form.isForm(item)) {
+          forms.push(item);
+        } else if (!FormControl.isFormControl(item)) {
+          return { node, forms, rest };
+        }
+        node = item;
+        continue;
+      }
+      const form: unknown = FormControl.isFormControl(node) ? node.value : node;
+      const control: unknown = Form.isForm(form)
+        ? (form.controls as Record<string, unknown>)[segment]
+        : undefined;
+      if (!Form.isForm(form) || !FormControl.isFormControl(control)) {
+        return { node, forms, rest };
+      }
+      if (form !== node) {
+        forms.push(form);
+      }
+      node = control;
+    }
+    return { node, forms, rest: [] };
+  }
+
+  /**
+   * Resolves a path to the form, control or form-array item it points to, along with
+   * the forms leading there (outermost first)
+   * @returns The target, or undefined if nothing exists at the path
+   * @private
+   */
+  private resolveSubtree(path: string): SubtreeTarget | undefined {
+    const segments = parsePath(path);
+    const { node, forms, rest } = this.locate(segments);
+    return rest.length === 0 ? { node, path: segments.join("."), forms } : undefined;
+  }
+
+  /**
+   * Builds a report of the failed and pending paths below the given targets
+   * @private
+   */
+  private reportFor(targets: SubtreeTarget[], unknownPaths: string[] = []): ValidationReport {
+    const failed = new Set<string>(unknownPaths);
+    let pending = false;
+    const visitor: FormTreeVisitor = {
+      form: (form, formPath) => {
+        form.internalUpdate();
+        pending ||= form._formValidation.current.pending;
+        if (form.failedFormResults().length > 0) {
+          failed.add(formPath);
+        }
+      },
+      control: (control, controlPath) => {
+        if (control.pending) {
+          pending = true;
+        } else if (!control.valid) {
+          failed.add(controlPath);
+        }
+      },
+    };
+    for (const { node, path } of targets) {
+      if (Form.isForm(node)) {
+        node.visit(path, visitor);
+      } else {
+        Form.visitControl(node, path, visitor);
+      }
+    }
+    return { valid: failed.size === 0 && !pending, pending, failed: [...failed] };
+  }
+
+  /**
+   * Validates the subtrees below the given paths and reports the failed ones
+   * @private
+   */
+  private validatePaths(
+    paths: readonly string[],
+    opts: { stateless?: boolean }
+  ): ValidationReport {
+    const targets: SubtreeTarget[] = [];
+    const unknownPaths: string[] = [];
+    for (const path of paths) {
+      const target = this.resolveSubtree(path);
+      if (!target) {
+        console.dError(`Form with controls:`, this._controls, `. No control found for path: ${path}`);
+        unknownPaths.push(path);
+        continue;
+      }
+      target.node.validate({ stateless: true });
+      // Bring the forms above the target up to date, innermost first
+      [...target.forms].reverse().forEach((form) => form.internalUpdate());
+      targets.push(target);
+    }
+    const report = this.reportFor(targets, unknownPaths);
+    if (!opts.stateless) {
+      this.propagate(this.clone());
+    }
+    return report;
+  }
+
+  /**
+   * Runs the form-level validators against the built value, unless no control value
+   * changed since the last run.
+   * @private
+   */
+  private runFormValidators(
+    controls: FormControl<any, T>[]
+  ): FormValidationState<any> {
+    const state = this._formValidation.current;
+    if (state.validators.length === 0 && state.results.length === 0 && !state.pending) {
+      return state;
+    }
+    if (!this.__controlsCreated) {
+      return state;
+    }
+    // With updateOn 'blur' / 'submit', only re-run once controls were re-validated
+    const snapshot =
+      this.updateOn === "change"
+        ? controls.map((control) => control.value)
+        : controls.map((control) => control.lastValidation);
+    if (sameValues(state.snapshot, snapshot)) {
+      return state;
+    }
+    state.snapshot = snapshot;
+    const { results, valid, pending } = executeValidators(
+      state.validators,
+      this.build(),
+      {
+        groups: this.activeGroups,
+        ref: this._asyncValidation,
+        onSettled: (settledResults, settledValid) => {
+          state.results = settledResults;
+          state.valid = settledValid;
+          state.pending = false;
+          this.propagateLatest();
+        },
+      }
+    );
+    state.results = results;
+    state.valid = valid;
+    state.pending = pending;
+    return state;
+  }
+
+  /**
+   * Waits for the form-level validators' latest run to settle
+   * @private
+   */
+  private async whenFormValidatorsSettled(): Promise<boolean> {
+    await this._asyncValidation.current.settled;
+    const state = this._formValidation.current;
+    return state.pending ? this.whenFormValidatorsSettled() : state.valid;
+  }
+
+  /**
+   * Propagates a change that happened outside of a regular update (e.g. an async
+   * validator settling) to the most recent version of this form.
+   * @private
+   */
+  private propagateLatest(): void {
+    if (typeof this._setState === "function") {
+      this._setState((prev: Form<T>) => {
+        const next = (prev ?? this).clone();
+        next.internalUpdate();
+        return next;
+      });
+    } else {
+      this.internalUpdate();
+    }
+  }
+
+  /**
+   * Applies a control's update to this form: through the React state setter when the
+   * form has one, otherwise directly to this instance
+   * @private
+   */
+  private applyControlUpdate(updateAction: React.SetStateAction<any>): void {
+    if (typeof updateAction === "function") {
+      if (this._setState) {
+        this._setState((oldForm: any) => {
+          const nextForm = updateAction(oldForm);
+          if (nextForm && typeof nextForm.internalUpdate === "function") {
+            nextForm.internalUpdate();
+          }
+          return nextForm;
+        });
+      } else {
+        // Non-reactive path: evaluate updater against current instance and merge
+        const nextForm = updateAction(this as unknown as Form<T>);
+        Object.assign(this, nextForm);
+        this.internalUpdate();
+      }
+    } else {
+      if (this._setState) {
+        const nextForm = updateAction;
+        if (nextForm && typeof nextForm.internalUpdate === "function") {
+          nextForm.internalUpdate();
+        }
+        this._setState(nextForm);
+      } else {
+        // Non-reactive direct assignment path
+        Object.assign(this, updateAction);
+        this.internalUpdate();
+      }
+    }
+  }
+
+  /**
+   * Sets the controls of this form (and the templates it is recreated from) and
+   * propagates a single update
+   * @private
+   */
+  private updateControls(
+    controls: FormControlMap<T>,
+    primitiveControls: AcceptedControls<T>
+  ): void {
+    this._controls = controls;
+    this._flattenedControls = Object.values(this._controls ?? {}) || [];
+    this.__primitiveControls = primitiveControls;
+    this.internalUpdate();
+    // Recorded values no longer match the controls
+    this._history?.clear(this.build());
+    this.propagate(this.clone());
+  }
+
+  /**
+   * Starts recording the built value after every value change of this form or below it.
+   * Form-array operations are never merged with edits of the same array.
+   * @private
+   */
+  private recordHistory(options: HistoryOptions): void {
+    const history = new History(this.build(), options);
+    this._history = history;
+    this.valueChanges.subscribe(({ path, value }) => {
+      const latest: Form<T> = this._formScope.current.form ?? this;
+      const updated = setIn(history.present, parsePath(path), value);
+      history.record(
+        path,
+        updated.found ? (updated.value as FormValue<Form<T>>) : latest.build(),
+        { coalesce: !FormArray.isFormArray(latest.get(path as Path<T>)) }
+      );
+    });
+  }
+
+  /**
+   * Sets a value taken from the history on the latest version without recording it
+   * @private
+   */
+  private restoreHistory(value: FormValue<Form<T>> | undefined): void {
+    if (value === undefined || !this._history) {
+      return;
+    }
+    const latest: Form<T> = this._formScope.current.form ?? this;
+    // Undo and redo restore values; they do not edit the controls themselves
+    this._history.pause(() => latest.setValue(value, { markAsDirty: false, markAsTouched: false }));
+  }
+
+  /**
+   * Change events of a nested form bubble to the control holding it (with the form's
+   * index for form arrays)
+   * @protected
+   */
+  protected changeParent(): { parent: BaseForm<any>; segment: string } | undefined {
+    const control = this.__parentControl?.latest;
+    const value: unknown = control?.value;
+    if (Array.isArray(value)) {
+      const index = value.findIndex((item) => Form.isForm(item) && item.formId === this.formId);
+      return index === -1 ? undefined : { parent: control, segment: String(index) };
+    }
+    return Form.isForm(value) && value.formId === this.formId
+      ? { parent: control, segment: "" }
+      : undefined;
+  }
+
+  /**
+   * Gets the forms nested in this form's controls, alone or in form arrays
+   * @private
+   */
+  private nestedForms(): Array<Form<any>> {
+    return (this._flattenedControls ?? []).flatMap((control) => {
+      const value: unknown = control.value;
+      const items: unknown[] = Array.isArray(value) ? value : [value];
+      return items.filter((item): item is Form<any> => Form.isForm(item));
+    });
+  }
+
+  /**
+   * Applies this form's readonly/disabled state to a new control and its nested forms.
+   * Nested forms that set `readOnly` explicitly keep it.
+   * @private
+   */
+  private inheritState(control: FormControl<any, T>): void {
+    control.setStateWithoutPropagation(this._readonly, this._disabled);
+    const value = control.value;
+    const nestedForms: unknown[] = Array.isArray(value) ? value : [value];
+    for (const nested of nestedForms) {
+      if (Form.isForm(nested)) {
+        const readonly = nested.__explicitReadOnly ? nested.readonly : this._readonly;
+        nested.setStateWithoutPropagation(readonly, this._disabled);
+      }
+    }
+  }
+
+  /**
+   * Connects controls and nested forms to this form's settings
+   * @private
+   */
+  private shareFormScope(controls: FormControl<any, T>[]): void {
+    for (const control of controls) {
+      control.setFormScope(this._formScope);
+      const value = control.value;
+      if (Form.isForm(value)) {
+        value.inheritFormScope(this._formScope);
+      } else if (Array.isArray(value)) {
+        for (const item of value) {
+          if (Form.isForm(item)) {
+            item.inheritFormScope(this._formScope);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Re-validates controls (here and in nested forms) whose dependencies changed,
+   * so their results are current before this form's state is computed.
+   * Controls that only validate on blur or submit pick a changed value up on their
+   * next validation, but are re-validated once dependencies that could not be
+   * resolved during construction become available.
+   * @returns True if any control was re-validated
+   * @private
+   */
+  private revalidateDependents(controls: FormControl<any, T>[]): boolean {
+    let revalidated = false;
+    for (const control of controls) {
+      const change = control.dependencyChange();
+      if (change === "resolved" || (change === "changed" && control.updateOn === "change")) {
+        control.validate({ stateless: true });
+        revalidated = true;
+      }
+      const value = control.value;
+      const nestedForms: unknown[] = Array.isArray(value) ? value : [value];
+      for (const nested of nestedForms) {
+        if (
+          Form.isForm(nested) &&
+          nested.revalidateDependents(nested._flattenedControls ?? [])
+        ) {
+          nested.internalUpdate();
+          revalidated = true;
+        }
+      }
+    }
+    return revalidated;
+  }
+
   /**
    * Internal method to update the form's state based on its controls
    * Updates dirty, touched, valid states and invalid controls array
@@ -514,13 +1985,54 @@ export class Form<T> extends BaseForm<T, Form<T>> {
     }
 
     const controls = this._flattenedControls || [];
+    this._formScope.current.form = this;
+    this.shareFormScope(controls);
+    this.revalidateDependents(controls);
     this._dirty = controls.some((control) => control.dirty);
     this._touched = controls.some((control) => control.touched);
 
     // Recompute invalid controls to keep state in sync with children
     const invalidControls = controls.filter((control) => !control.valid);
-    this._invalids = invalidControls;
-    this._valid = invalidControls.length === 0;
+    const formValidation = this.runFormValidators(controls);
+    if (
+      formValidation.serverResults.length > 0 &&
+      !sameBuiltValue(
+        formValidation.serverSnapshot,
+        controls.map((control) => unwrapValue(control.value))
+      )
+    ) {
+      // Server errors refer to the previous values
+      formValidation.serverResults = [];
+    }
+    const activeGroups = this.activeGroups;
+    const failedFormResults = [
+      ...formValidation.results,
+      ...formValidation.serverResults,
+    ].filter((entry) => !entry.result.valid && inGroups(entry, activeGroups));
+    const builtValue = failedFormResults.length > 0 ? this.build() : undefined;
+    const renderedFormResults = failedFormResults.map((entry) => ({
+      ...entry,
+      message: renderValidationMessage(entry, {
+        value: builtValue,
+        scope: this._formScope,
+      }),
+    }));
+    this._invalids = [
+      ...invalidControls,
+      ...renderedFormResults.filter(isError),
+    ];
+    this._warnings = [
+      ...controls.filter((control) => control.warnings.length > 0),
+      ...renderedFormResults.filter(isWarning),
+    ];
+    this._messagesKey = messagesKey(this._formScope);
+    this._valid =
+      invalidControls.length === 0 &&
+      formValidation.valid &&
+      formValidation.serverResults.length === 0;
+    this._pending =
+      controls.some((control) => control.pending) || formValidation.pending;
+    this.reportStatus();
 
     // Do not propagate here; callers are responsible for state updates to
     // avoid conflicting React state transitions and preserve update ordering.
@@ -1,12 +1,44 @@
-import { PatchValueProps } from "../types/control.types";
-import { AdvancedValidatorReturn, ValidatorFn } from "../types/validator.types";
+import {
+  FormControlOptions,
+  FormStatus,
+  PatchValueProps,
+  UpdateOn,
+} from "../types/control.types";
+import {
+  ServerError,
+  ValidationError,
+  ValidationErrors,
+  ValidationResult,
+  ValidatorFn,
+} from "../types/validator.types";
 import { BaseForm } from "./base-form";
 import { Form } from "./form";
 import {
   assignHooklessFormArray,
+  recreatedFormOptions,
   Ref,
   RefOrFactory,
 } from "./util/form-control.util";
+import {
+  AsyncValidationState,
+  createAsyncValidationRef,
+  executeValidators,
+  inGroups,
+  isError,
+  isFactoryValidator,
+  isServerResult,
+  isWarning,
+  ownEntry,
+  resultsAreValid,
+  toServerResults,
+  toValidationErrors,
+} from "./util/validation.util";
+import {
+  messagesKey,
+  renderValidationMessage,
+} from "./util/message.util";
+import { FormScope, resolveScoped } from "./util/scope.util";
+import { resolveScopedPath, unwrapValue } from "./util/path.util";
 import { } from "../util";
 
 /**
@@ -19,6 +51,11 @@ type FormControlVersion<T, O> = {
   old: FormControl<T, O>;
 };
 
+/**
+ * Paths a validation run depended on, with what they resolved to at the time
+ */
+type ControlDependencies = Map<string, { found: boolean; value?: unknown }>;
+
 /**
  * Represents a single form control that manages a value, validation, and state.
  * FormControl is the building block of reactive forms, handling individual field values.
@@ -72,10 +109,38 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
    * A list of validation results from the last validation run
    * @private
    */
-  private _invalids: Array<{
-    fn: ValidatorFn<T>;
-    result: AdvancedValidatorReturn;
-  }> = [];
+  private _invalids: Array<ValidationResult<T>> = [];
+
+  /**
+   * Memoized copy of `_invalids` with interpolated messages and the derived errors record and warnings
+   * @private
+   */
+  private _renderedInvalids?: {
+    source: Array<ValidationResult<T>>;
+    messagesKey: string;
+    groups: string;
+    rendered: Array<ValidationResult<T>>;
+    errors?: ValidationErrors;
+    warnings?: Array<ValidationResult<T>>;
+  };
+
+  /**
+   * Errors set through `setServerErrors`, kept until the value changes
+   * @private
+   */
+  private _serverErrors: Array<ValidationResult<T>> = [];
+
+  /**
+   * Paths the last validation run depended on, with the raw values it saw
+   * @private
+   */
+  private _dependencies: ControlDependencies = new Map();
+
+  /**
+   * Settings (locale, message catalogs, updateOn) inherited from the owning form
+   * @private
+   */
+  private _formScope?: Ref<FormScope>;
 
   /**
    * Array of validation functions to apply to the control's value
@@ -83,6 +148,25 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
    */
   private _validators: Array<ValidatorFn<T>>;
 
+  /**
+   * Per-control configuration (debounce, ...)
+   * @private
+   */
+  private _options: FormControlOptions;
+
+  /**
+   * Async validation bookkeeping, shared between clones so the latest run always wins
+   * @private
+   */
+  private _asyncValidation: Ref<AsyncValidationState> = createAsyncValidationRef();
+
+  /**
+   * The first form this control held in an array, shared between clones, so a form
+   * array that has been emptied can still create items
+   * @private
+   */
+  private _itemForm: Ref<Form<any> | undefined> = { current: undefined };
+
   /**
    * Reference to track control versions for proper React state updates
    * @private
@@ -100,14 +184,17 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
    * @param initialValue - The initial value of the control
    * @param validators - Array of validation functions (default: empty array)
    * @param setState - React state setter function for propagating updates
+   * @param options - Optional per-control configuration
    */
   constructor(
     key: keyof T,
     initialValue: T,
     validators: Array<ValidatorFn<T>> = [],
-    setState: React.Dispatch<React.SetStateAction<Form<O>>>
+    setState: React.Dispatch<React.SetStateAction<Form<O>>>,
+    options: FormControlOptions = {}
   ) {
     super(setState);
+    this._options = options ?? {};
     this._key = key;
     this._initialValue = initialValue;
     this._value = initialValue;
@@ -119,6 +206,7 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
     } else {
       this._valid = this.checkValidity();
     }
+    this.reportStatus();
   }
 
   /**
@@ -129,6 +217,27 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
     return this._key;
   }
 
+  /**
+   * Gets the validation status of the control
+   * @returns `'pending'` while async validators run, otherwise `'valid'` or `'invalid'`
+   */
+  public get status(): FormStatus {
+    return this._pending ? "pending" : this._valid ? "valid" : "invalid";
+  }
+
+  /**
+   * Change events bubble to the form holding this control
+   * @protected
+   */
+  protected changeParent(): { parent: BaseForm<any>; segment: string } | undefined {
+    const form = this._formScope?.current.form;
+    if (!form || form.controls?.[this._key as never]?.formId !== this.formId) {
+      // Not (or no longer) part of a form
+      return undefined;
+    }
+    return { parent: form, segment: String(this._key) };
+  }
+
   /**
    * Gets the current value of the control
    * @returns The control's current value
@@ -152,6 +261,7 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
    * Resets the control to its initial state, including nested forms if present
    */
   public reset(): void {
+    const previousValue = this._value;
     // Check if current value contains forms
     const currentValueContainsForms =
       BaseForm.isFormLike(this._value) ||
@@ -207,7 +317,9 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
     }
     this._dirty = false;
     this._touched = false;
+    this._serverErrors = [];
     this._valid = this.checkValidity();
+    this.reportValueChange(previousValue);
     this.propagate(this.clone());
   }
 
@@ -267,12 +379,17 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
   }
 
   /**
-    * Removes a validator function from the form-control and recalculates validity
+    * Removes a validator function from the form-control and recalculates validity.
+    * Validators created by `Validators` factories and combinators (e.g. `minLength(3)`,
+    * `compose(...)`) are matched by identity, other functions also by their source.
   * @param validator - The validator function to remove
   */
   public removeValidator(validator: ValidatorFn<T>): void {
+    const bySource = !isFactoryValidator(validator);
     this._validators = this._validators.filter(
-      (v) => v !== validator && v.toString() !== validator.toString()
+      (v) =>
+        v !== validator &&
+        (!bySource || isFactoryValidator(v) || v.toString() !== validator.toString())
     );
     this.recalculateValidity();
   }
@@ -281,11 +398,8 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
     * Recalculates the validity of the control based on its validators and propagates the change
   */
   private recalculateValidity(): void {
-    if (this._validators.length === 0 || !this._validators) {
-      this._valid = true; // No validators means always validators
-    } else {
-      this._valid = this.checkValidity();
-    }
+    // Always re-run so in-flight async validators are cancelled when the set changes
+    this._valid = this.checkValidity();
     this.propagate(this.clone());
   }
 
@@ -318,6 +432,7 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
    * @param opts - Options for the patch operation
    * @param opts.stateless - If true, skips React state propagation (default: false)
    * @param opts.markAsDirty - If false, does not mark the control as dirty (default: true)
+   * @param opts.markAsTouched - If false, does not mark the control as touched (default: true)
    */
   public override patchValue(
     newValue: Partial<T>,
@@ -345,11 +460,63 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
     }
   }
 
+  /**
+   * Replaces the control's value (unlike `patchValue`, object values are not merged)
+   * @param newValue - The new value
+   * @param opts - Options for the update
+   * @param opts.stateless - If true, skips React state propagation (default: false)
+   * @param opts.markAsDirty - If false, does not mark the control as dirty (default: true)
+   * @param opts.markAsTouched - If false, does not mark the control as touched (default: true)
+   */
+  public setValue(newValue: T, opts: PatchValueProps = {}): void {
+    this.updateValueInternal(newValue, opts);
+    if (!opts.stateless) {
+      this.propagate(this.clone());
+    }
+  }
+
+  /**
+   * Takes a new version of the nested form (or form-array items) this control holds,
+   * marking the control dirty or touched only if that nested form is
+   * @param value - The new value holding the nested form
+   * @param nested - The new version of the nested form
+   * @internal
+   */
+  public updateNested(value: T, nested: Form<any>): void {
+    if (this._value !== value) {
+      this.setValue(value, { markAsDirty: nested.dirty, markAsTouched: nested.touched });
+    }
+  }
+
+  /**
+   * A form shaped like the items of this form array (its first current item, the first
+   * item it was created with, the first item it ever held, or its `itemForm` option),
+   * used to create new items
+   * @returns The form, or undefined if the control never held an array of forms
+   * @internal
+   */
+  public formArrayTemplate(): Form<any> | undefined {
+    if (!Array.isArray(this._value)) {
+      return undefined;
+    }
+    const items = [
+      ...this._value,
+      ...(Array.isArray(this._initialValue) ? this._initialValue : []),
+    ];
+    return (
+      items.find((item): item is Form<any> => Form.isForm(item)) ??
+      this._itemForm.current ??
+      this._options.itemForm
+    );
+  }
+
   private updateValueInternal(newValue: T, {
     markAsDirty = true,
-  }: { stateless?: boolean; markAsDirty?: boolean }): void {
+    markAsTouched = true,
+  }: PatchValueProps): void {
     this.internalUpdate(newValue, {
       markAsDirty,
+      markAsTouched,
     });
   }
 
@@ -376,59 +543,344 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
    */
   private checkValidity(): boolean {
     const validatorsValid = this.runValidators();
+    this.trackNestedForms();
+    return validatorsValid;
+  }
 
-    // If the control wraps nested form(s), include their validity
-    const hasNestedForms =
+  /**
+   * Updates `_contains_a_form` based on the current value
+   * @private
+   */
+  private trackNestedForms(): void {
+    this._contains_a_form =
       BaseForm.isFormLike(this._value) ||
       (Array.isArray(this._value) &&
         this._value.some((item) => BaseForm.isFormLike(item)));
-
-    // Always update _contains_a_form based on current value state
-    this._contains_a_form = hasNestedForms;
-
-    return validatorsValid;
   }
 
   /**
    * Runs validators and normalizes the results into the invalids array.
+   * Async validators mark the control as pending; once the latest run settles the
+   * results are applied to the newest version of this control and propagated.
    */
   private runValidators(): boolean {
-    if (!this._validators || this._validators.length === 0) {
-      this._invalids = [];
-      return true;
-    }
-
-    this._invalids = this._validators.map((validator) => {
-      const result = validator(this.value);
-      const mutatedResult =
-        typeof result === "boolean"
-          ? { valid: result }
-          : "then" in result
-            ? result.then((res) =>
-              typeof res === "boolean" ? { valid: res } : res
-            )
-            : (result as AdvancedValidatorReturn);
-      return {
-        fn: validator,
-        result: mutatedResult as AdvancedValidatorReturn,
-      };
-    });
+    const dependencies: ControlDependencies = new Map();
+    const track = (path: string): unknown => {
+      const resolved = resolveScopedPath(this._formScope, path);
+      if (!dependencies.has(path)) {
+        dependencies.set(path, resolved);
+      }
+      return resolved.value;
+    };
+    (this._options.dependsOn ?? []).forEach(track);
+    this._dependencies = dependencies;
 
-    return this._invalids.every(({ result }) => {
-      if (typeof result === "boolean") {
-        return result;
+    const { results, valid, pending } = executeValidators(
+      this._validators,
+      this.value,
+      {
+        context: {
+          key: this._key,
+          get: (path) => unwrapValue(track(path)),
+        },
+        debounceMs: this._options.debounceMs,
+        groups: this.activeGroups,
+        ref: this._asyncValidation,
+        onSettled: (settledResults, settledValid) => {
+          const latest = this._versionRef.current.current ?? this;
+          latest._invalids = [...settledResults, ...latest._serverErrors];
+          latest._valid = settledValid && latest._serverErrors.length === 0;
+          latest._pending = false;
+          latest.propagate(latest.clone());
+        },
       }
-      if (typeof result === "object" && "valid" in result) {
-        return result.valid;
+    );
+    this._invalids = [...results, ...this._serverErrors];
+    this._pending = pending;
+    return valid && this._serverErrors.length === 0;
+  }
+
+  /**
+   * Gets when the control re-runs its validators: its own `updateOn` option,
+   * otherwise the closest form's, otherwise `'change'`
+   */
+  public get updateOn(): UpdateOn {
+    return this._options.updateOn ?? resolveScoped(this._formScope, "updateOn") ?? "change";
+  }
+
+  /**
+   * Gets the active validation groups, set on the closest form through
+   * `form.validate({ groups })`. Validators outside of them do not affect `valid`.
+   */
+  public get activeGroups(): readonly string[] {
+    return resolveScoped(this._formScope, "groups") ?? [];
+  }
+
+  /**
+   * Checks whether the control passes its ungrouped validators and those of the given
+   * groups, based on the last validation run and regardless of the active groups
+   * @param groups - A validation group or a list of groups, e.g. `'publish'`
+   * @returns The validity for those groups; false while async validators are pending
+   *
+   * @example
+   * ```typescript
+   * const form = formGroup({
+   *   title: ['', [Validators.group('publish', Validators.required)]],
+   * });
+   * form.controls.title.valid // true
+   * form.controls.title.validFor('publish') // false
+   * ```
+   */
+  public validFor(groups: string | readonly string[]): boolean {
+    return (
+      !this._pending &&
+      resultsAreValid(this._invalids, typeof groups === "string" ? [groups] : groups)
+    );
+  }
+
+  /**
+   * Adds errors reported by a server (e.g. after a rejected submission) to the
+   * control's results. They count toward `valid` and show up in `invalids`, `errors`
+   * and `messages` until the value next changes. Replaces earlier server errors;
+   * pass `[]` to remove them.
+   * @param errors - A message, an error with a code (default `'server'`), or a list of those
+   * @param opts - Options for the update
+   * @param opts.stateless - If true, skips React state propagation (default: false)
+   *
+   * @example
+   * ```typescript
+   * form.controls.email.setServerErrors({ code: 'taken', message: 'Email is already registered.' });
+   * form.controls.email.hasError('taken') // true
+   * ```
+   */
+  public setServerErrors(
+    errors: ServerError | ServerError[],
+    opts: { stateless?: boolean } = {}
+  ): void {
+    this._serverErrors = toServerResults(Array.isArray(errors) ? errors : [errors]);
+    this._invalids = [
+      ...this._invalids.filter((entry) => !isServerResult(entry)),
+      ...this._serverErrors,
+    ];
+    this._valid = !this._pending && resultsAreValid(this._invalids, this.activeGroups);
+    this.reportStatus();
+    if (!opts.stateless) {
+      this.propagate(this.clone());
+    }
+  }
+
+  /**
+   * Marks the control as touched without re-running its validators
+   * @param opts - Options for the update
+   * @param opts.stateless - If true, skips React state propagation (default: false)
+   */
+  public markAsTouched(opts: { stateless?: boolean } = {}): void {
+    this._touched = true;
+    if (!opts.stateless) {
+      this.propagate(this.clone());
+    }
+  }
+
+  /**
+   * Marks the control as touched after it lost focus. Controls with
+   * `updateOn: 'blur'` re-run their validators.
+   *
+   * @example
+   * ```tsx
+   * <input
+   *   value={control.value}
+   *   onChange={(e) => (control.value = e.target.value)}
+   *   onBlur={() => control.markAsBlurred()}
+   * />
+   * ```
+   */
+  public markAsBlurred(): void {
+    this._touched = true;
+    if (this.updateOn === "blur") {
+      this._valid = this.checkValidity();
+    }
+    this.propagate(this.clone());
+  }
+
+  /**
+   * Re-runs the validators now, regardless of `updateOn`. Nested forms held by
+   * the control are validated as well.
+   * @param opts - Options for the validation
+   * @param opts.stateless - If true, skips React state propagation (default: false)
+   * @returns The control's validity; false while async validators are pending (see `whenSettled()`)
+   */
+  public validate(opts: { stateless?: boolean } = {}): boolean {
+    const values: unknown[] = Array.isArray(this._value) ? this._value : [this._value];
+    values.forEach((item) => {
+      if (Form.isForm(item)) {
+        item.validate({ stateless: true });
       }
-      return false;
     });
+    this._valid = this.checkValidity();
+    this.reportStatus();
+    if (!opts.stateless) {
+      this.propagate(this.clone());
+    }
+    return this._valid;
   }
 
-  public get invalids() {
+  /**
+   * Checks whether a path the last validation run depended on (declared through
+   * `dependsOn` or read through the validator context's `get`) has changed since.
+   * @returns `'resolved'` if a path that could not be resolved back then (e.g. during
+   * construction, before the control joined its form) resolves now, `'changed'` if a
+   * value changed, undefined otherwise
+   * @internal
+   */
+  public dependencyChange(): "resolved" | "changed" | undefined {
+    let change: "changed" | undefined;
+    for (const [path, previous] of this._dependencies) {
+      const current = resolveScopedPath(this._formScope, path);
+      if (!previous.found && current.found) {
+        return "resolved";
+      }
+      if (current.found !== previous.found || current.value !== previous.value) {
+        change = "changed";
+      }
+    }
+    return change;
+  }
+
+  /**
+   * Results of the last validation run before messages are rendered. Every run
+   * creates a new array, so its identity tells whether the control was re-validated.
+   * @internal
+   */
+  public get lastValidation(): ReadonlyArray<ValidationResult<T>> {
     return this._invalids;
   }
 
+  /**
+   * Gets the results of the last validation run (one entry per validator that has settled),
+   * leaving out validators of inactive groups.
+   * Each entry carries a ready-to-render `message`: the catalog message for its error code
+   * in the current locale (or the validator's own message) with its placeholders interpolated.
+   * @returns Array of validator/result pairs
+   */
+  public get invalids(): Array<ValidationResult<T>> {
+    const key = messagesKey(this._formScope);
+    const groups = this.activeGroups;
+    if (
+      this._renderedInvalids?.source !== this._invalids ||
+      this._renderedInvalids.messagesKey !== key ||
+      this._renderedInvalids.groups !== groups.join(",")
+    ) {
+      this._renderedInvalids = {
+        source: this._invalids,
+        messagesKey: key,
+        groups: groups.join(","),
+        rendered: this._invalids
+          .filter((entry) => inGroups(entry, groups))
+          .map((entry) => ({
+            ...entry,
+            message: renderValidationMessage(entry, {
+              value: this._value,
+              key: this._key,
+              scope: this._formScope,
+            }),
+          })),
+      };
+    }
+    return this._renderedInvalids.rendered;
+  }
+
+  /**
+   * Gets the interpolated messages of all failing error-level validators
+   * @returns Array of ready-to-render error messages
+   */
+  public get messages(): string[] {
+    return this.invalids
+      .filter((entry) => isError(entry) && !!entry.message)
+      .map(({ message }) => message as string);
+  }
+
+  /**
+   * Gets the results of failed warning-level validators (`severity: 'warning'`).
+   * Warnings carry a rendered `message` like `invalids` but never affect `valid`.
+   * @returns Array of validator/result pairs
+   */
+  public get warnings(): Array<ValidationResult<T>> {
+    const rendered = this.invalids;
+    return (this._renderedInvalids.warnings ??= rendered.filter(isWarning));
+  }
+
+  /**
+   * Gets the failed rules of the last validation run keyed by error code
+   * @returns An errors record, empty when the control has no errors
+   *
+   * @example
+   * ```typescript
+   * form.controls.name.errors.minLength?.params // { required: 3, actual: 1 }
+   * ```
+   */
+  public get errors(): ValidationErrors {
+    const rendered = this.invalids;
+    return (this._renderedInvalids.errors ??= toValidationErrors(rendered));
+  }
+
+  /**
+   * Checks whether the control currently fails the rule with the given code
+   * @param code - The error code, e.g. `'required'`
+   * @returns True if an error with that code exists
+   */
+  public hasError(code: string): boolean {
+    return this.getError(code) !== undefined;
+  }
+
+  /**
+   * Gets the error with the given code
+   * @param code - The error code, e.g. `'minLength'`
+   * @returns The error (code, message and params) or undefined
+   */
+  public getError(code: string): ValidationError | undefined {
+    return ownEntry(this.errors, code);
+  }
+
+  /**
+   * The newest version of the control; React state and callers may still hold older clones
+   * @internal
+   */
+  public get latest(): this {
+    return (this._versionRef.current.current ?? this) as this;
+  }
+
+  /**
+   * Stops the control, and its newest version, from updating its form
+   * (e.g. after the form removed or replaced it)
+   * @internal
+   */
+  public detach(): void {
+    this.unhook();
+    this.latest.unhook();
+  }
+
+  /**
+   * Connects the control, and its newest version, to the settings of its form. The newest
+   * version may have been cloned before the form shared its scope (e.g. nested forms are
+   * set on their control while the parent form is being created).
+   * @param scope - The form's scope
+   * @internal
+   */
+  public setFormScope(scope: Ref<FormScope>): void {
+    this._formScope = scope;
+    this.latest._formScope = scope;
+  }
+
+  /**
+   * Waits until the latest validation run (including async validators) has settled
+   * @returns A promise resolving to the control's final validity
+   */
+  public async whenSettled(): Promise<boolean> {
+    await this._asyncValidation.current.settled;
+    const latest = this.latest;
+    return latest.pending ? latest.whenSettled() : latest.valid;
+  }
+
   /**
    * Internal method to update the control's value and run validation
    * @protected
@@ -436,8 +888,15 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
    */
   protected override internalUpdate(value: T, args?: {
     markAsDirty: boolean,
+    markAsTouched?: boolean,
   }): void {
     const markAsDirty = args?.markAsDirty ?? true;
+    const markAsTouched = args?.markAsTouched ?? true;
+    const previousValue = this._value;
+    if (this._serverErrors.length > 0) {
+      // Server errors refer to the previous value
+      this.setServerErrors([], { stateless: true });
+    }
     this._value = value;
     this.handleNewArrayObject();
     const nForm = this.handleNewFormObject(this._value);
@@ -448,8 +907,33 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
     if (markAsDirty) {
       this._dirty = true;
     }
-    this._touched = true;
-    this._valid = this.checkValidity();
+    if (markAsTouched) {
+      this._touched = true;
+    }
+    if (this.updateOn === "change") {
+      this._valid = this.checkValidity();
+    } else {
+      // Validity is updated on blur / validate()
+      this.trackNestedForms();
+    }
+    this.reportValueChange(previousValue);
+    this.reportStatus();
+  }
+
+  /**
+   * Notifies value listeners if the value changed. Updates that only swap in a new
+   * version of a nested form are not reported here; the nested form reports them.
+   * @private
+   */
+  private reportValueChange(previousValue: T): void {
+    if (sameValue(previousValue, this._value) || !this.valueChangesObserved()) {
+      return;
+    }
+    this.emitValueChange({
+      path: "",
+      previousValue: unwrapValue(previousValue),
+      value: unwrapValue(this._value),
+    });
   }
 
   /**
@@ -463,6 +947,7 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
     ) {
       return;
     }
+    this._itemForm.current ??= this._value.find((item): item is Form<any> => Form.isForm(item));
 
     this._value = new Proxy(this._value, {
       set: (target, property, newValue) => {
@@ -550,8 +1035,8 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
           const oldFormCached = this.value as unknown as Form<any>;
           const val: Form<any> =
             typeof oldState === "function" ? oldState(oldFormCached) : oldState;
-          this.value = val as unknown as T;
-        }) as unknown as T;
+          this.updateNested(val as unknown as T, val);
+        }, undefined, recreatedFormOptions(currentValue as Form<any>)) as unknown as T;
       }
       (nForm as Form<any>).setStateWithoutPropagation(this._readonly, this._disabled);
       return nForm;
@@ -591,3 +1076,172 @@ export class FormControl<T, O> extends BaseForm<T, Form<O>> {
     return obj && obj.__form_control === true;
   }
 }
+
+/**
+ * A control holding an array of forms. Forms are added, removed and reordered through
+ * its operations, each of which hooks new items into the array (inheriting its readonly
+ * and disabled state unless set explicitly), updates dirty and valid state and
+ * propagates a single update. Declared here because it extends FormControl, which the
+ * form modules import in a cycle.
+ * @template T - The data type of the item forms
+ * @template O - The type this FormArray belongs to (parent form type)
+ *
+ * @example
+ * ```typescript
+ * const form = formGroup({ items: [formGroup({ name: 'Pen' })] });
+ * form.controls.items.push(formGroup({ name: 'Ink' }));
+ * form.controls.items.move(1, 0);
+ * ```
+ */
+export class FormArray<T, O = any> extends FormControl<Array<Form<T>>, O> {
+  /**
+   * Internal marker used to identify FormArray instances
+   * @private
+   * @readonly
+   */
+  private readonly __form_array = true;
+
+  /**
+   * Gets the number of item forms
+   * @returns The length of the array
+   */
+  public get length(): number {
+    return this.latest.value.length;
+  }
+
+  /**
+   * Gets the item form at an index
+   * @param index - The index, negative indexes count from the end
+   * @returns The form, or undefined if the index is out of range
+   */
+  public at(index: number): Form<T> | undefined {
+    return this.latest.value.at(index);
+  }
+
+  /**
+   * Appends forms to the end of the array
+   * @param forms - The forms to add, e.g. created with `formGroup`
+   */
+  public push(...forms: Array<Form<T>>): void {
+    this.update((items) => [...items, ...forms]);
+  }
+
+  /**
+   * Inserts forms at an index, shifting later items back
+   * @param index - The index of the first inserted form, from 0 up to the length
+   * @param forms - The forms to insert
+   */
+  public insert(index: number, ...forms: Array<Form<T>>): void {
+    if (!this.inRange(index, this.length + 1)) {
+      return;
+    }
+    this.update((items) => {
+      items.splice(index, 0, ...forms);
+      return items;
+    });
+  }
+
+  /**
+   * Removes the item form at an index
+   * @param index - The index of the form to remove
+   */
+  public removeAt(index: number): void {
+    if (!this.inRange(index)) {
+      return;
+    }
+    this.update((items) => items.filter((_, i) => i !== index));
+  }
+
+  /**
+   * Moves an item form to another index, shifting the items in between
+   * @param from - The index of the form to move
+   * @param to - The index the form ends up at
+   */
+  public move(from: number, to: number): void {
+    if (!this.inRange(from) || !this.inRange(to) || from === to) {
+      return;
+    }
+    this.update((items) => {
+      const [item] = items.splice(from, 1);
+      items.splice(to, 0, item);
+      return items;
+    });
+  }
+
+  /**
+   * Swaps two item forms
+   * @param a - The index of the first form
+   * @param b - The index of the second form
+   */
+  public swap(a: number, b: number): void {
+    if (!this.inRange(a) || !this.inRange(b) || a === b) {
+      return;
+    }
+    this.update((items) => {
+      [items[a], items[b]] = [items[b], items[a]];
+      return items;
+    });
+  }
+
+  /**
+   * Removes every item form
+   */
+  public clear(): void {
+    this.update(() => []);
+  }
+
+  /**
+   * Replaces every item form
+   * @param forms - The new item forms
+   */
+  public replace(forms: Array<Form<T>>): void {
+    this.update(() => [...forms]);
+  }
+
+  /**
+   * Type guard to check if an object is a FormArray instance
+   * @param obj - Object to check
+   * @returns True if the object is a FormArray instance
+   */
+  public static isFormArray(obj: any): obj is FormArray<any, any> {
+    return obj && obj.__form_array === true;
+  }
+
+  /**
+   * Checks an index against the latest items, logging indexes out of range
+   * @param end - The first index out of range (defaults to the length)
+   * @private
+   */
+  private inRange(index: number, end = this.length): boolean {
+    const inRange = Number.isInteger(index) && index >= 0 && index < end;
+    if (!inRange) {
+      console.dError(`FormArray ${String(this.key)}: index ${index} is out of range.`);
+    }
+    return inRange;
+  }
+
+  /**
+   * Applies a change to a copy of the latest items and sets the result in one update
+   * @private
+   */
+  private update(change: (items: Array<Form<T>>) => Array<Form<T>>): void {
+    const latest = this.latest;
+    latest.setValue(change(latest.value.slice()));
+  }
+}
+
+// Compares values by reference; nested forms (alone or in arrays) by their form ID, since
+// every update of a nested form swaps in a new version of it
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Form.isForm(a) && Form.isForm(b)) {
+    return a.formId === b.formId;
+  }
+  if (
+    Array.isArray(a) &&
+    Array.isArray(b) &&
+    (a.some((item) => Form.isForm(item)) || b.some((item) => Form.isForm(item)))
+  ) {
+    return a.length === b.length && a.every((item, index) => sameValue(item, b[index]));
+  }
+  return Object.is(a, b);
+}
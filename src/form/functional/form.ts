@@ -1,6 +1,8 @@
 import {
   FormControlNonArrayPrimitiveMap,
   FormControlPrimitiveMap,
+  FormTemplate,
+  InferFormData,
 } from "../../types/form.types";
 import { Form } from "../form";
 import type { FormOptions } from "../form";
@@ -26,10 +28,10 @@ import type { FormOptions } from "../form";
  * });
  * ```
  */
-export function formGroup<T>(props: FormControlPrimitiveMap<T>): Form<T>;
-export function formGroup<T>(
-  props: FormControlPrimitiveMap<T>,
-  options?: FormOptions,
+export function formGroup<T = never>(props: NoInfer<FormControlPrimitiveMap<T>>): Form<T>;
+export function formGroup<T = never>(
+  props: NoInfer<FormControlPrimitiveMap<T>>,
+  options?: FormOptions<T>,
 ): Form<T>;
 
 /**
@@ -39,15 +41,37 @@ export function formGroup<T>(
  * @param props - Non-array primitive control configuration map
  * @returns A new Form instance
  */
-export function formGroup<T>(props: FormControlNonArrayPrimitiveMap<T>): Form<T>;
-export function formGroup<T>(
-  props: FormControlNonArrayPrimitiveMap<T>,
-  options?: FormOptions,
+export function formGroup<T = never>(props: NoInfer<FormControlNonArrayPrimitiveMap<T>>): Form<T>;
+export function formGroup<T = never>(
+  props: NoInfer<FormControlNonArrayPrimitiveMap<T>>,
+  options?: FormOptions<T>,
 ): Form<T>;
 
+/**
+ * Functional helper to create a Form instance whose data type is inferred from the
+ * template, used when no type argument is given.
+ *
+ * @template C - The template type, see {@link InferFormData}
+ * @param template - Control configuration map
+ * @returns A new Form instance
+ *
+ * @example
+ * ```typescript
+ * const userForm = formGroup({
+ *   name: ['', [Validators.required]],
+ *   address: formGroup({ street: '' }),
+ * });
+ * userForm.build(); // { name: string; address: { street: string } }
+ * ```
+ */
+export function formGroup<C extends FormTemplate>(
+  template: C,
+  options?: FormOptions<NoInfer<InferFormData<C>>>,
+): Form<InferFormData<C>>;
+
 export function formGroup<T>(
   props: FormControlPrimitiveMap<T> | FormControlNonArrayPrimitiveMap<T>,
-  options?: FormOptions,
+  options?: FormOptions<T>,
 ): Form<T> {
   return new Form<T>(props, undefined, undefined, options);
 }
@@ -0,0 +1,43 @@
+import { ValidatorFn } from "../../types/validator.types";
+import { FormControlOptions } from "../../types/control.types";
+import { Form } from "../form";
+import { FormArray } from "../formcontrol";
+import { controlStateSetter } from "./formControl";
+
+/**
+ * Functional helper to create a FormArray instance, the control `createFormControls`
+ * uses for arrays of forms (and empty arrays declared with an `itemForm`).
+ *
+ * @template T - The type this FormArray belongs to (parent form type)
+ * @param key - The key/property name this control represents
+ * @param items - The initial item forms
+ * @param validators - Optional array of validation functions for the array
+ * @param setState - Optional React state setter function for propagating updates
+ * @param options - Optional per-control configuration
+ * @returns A new FormArray instance
+ *
+ * @example
+ * ```typescript
+ * const items = formArray<Order>(
+ *   'items',
+ *   [formGroup({ name: 'Pen' })],
+ *   [Validators.minLength(1)],
+ *   setState
+ * );
+ * ```
+ */
+export function formArray<T>(
+  key: keyof T,
+  items: Array<Form<any>>,
+  validators?: Array<ValidatorFn<any>>,
+  setState?: React.Dispatch<React.SetStateAction<any>>,
+  options?: FormControlOptions
+): FormArray<any, T> {
+  return new FormArray<any, T>(
+    key as any,
+    items,
+    validators || [],
+    controlStateSetter(key, setState),
+    options
+  );
+}
@@ -1,5 +1,6 @@
 import { FormControlNonArrayPrimitive } from "../../types/form.types";
 import { ValidatorFn } from "../../types/validator.types";
+import { FormControlOptions } from "../../types/control.types";
 import { FormControl } from "../formcontrol";
 
 /**
@@ -11,6 +12,7 @@ import { FormControl } from "../formcontrol";
  * @param initialValue - The initial value of the control, or a factory function to create it
  * @param validators - Optional array of validation functions
  * @param setState - Optional React state setter function for propagating updates
+ * @param options - Optional per-control configuration (e.g. async debounce)
  * @returns A new FormControl instance
  *
  * @example
@@ -38,32 +40,49 @@ export function formControl<T>(
     | FormControlNonArrayPrimitive<T>
     | ((setState?: React.Dispatch<React.SetStateAction<any>>) => void),
   validators?: Array<ValidatorFn<T>>,
-  setState?: React.Dispatch<React.SetStateAction<any>>
+  setState?: React.Dispatch<React.SetStateAction<any>>,
+  options?: FormControlOptions
 ): FormControl<any, T> {
   let initialVal: any = initialValue;
   return new FormControl(
     key,
     initialVal as any,
     validators || [],
-    (control) => {
-      if (setState) {
-        setState((oldForm: any) => {
-          if (!oldForm) return;
-          const controls = Object.assign(oldForm?._controls ?? {}, {
-            [key]: control,
-          });
-          const obj = Object.assign(
-            Object.create(Object.getPrototypeOf(oldForm)),
-            oldForm,
-            {
-              _formId: oldForm.formId,
-              _controls: controls,
-              _flattenedControls: Object.values(controls),
-            }
-          );
-          return obj;
+    controlStateSetter(key, setState),
+    options
+  ) as FormControl<any, T>;
+}
+
+/**
+ * Wraps a form's state setter so that each update of a control replaces it in a copy
+ * of the form
+ * @param key - The key of the control in the form
+ * @param setState - The form's React state setter
+ * @returns The state setter for the control
+ * @internal
+ */
+export function controlStateSetter<T>(
+  key: keyof T,
+  setState?: React.Dispatch<React.SetStateAction<any>>
+): React.Dispatch<React.SetStateAction<any>> {
+  return (control) => {
+    if (setState) {
+      setState((oldForm: any) => {
+        if (!oldForm) return;
+        const controls = Object.assign(oldForm?._controls ?? {}, {
+          [key]: control,
         });
-      }
+        const obj = Object.assign(
+          Object.create(Object.getPrototypeOf(oldForm)),
+          oldForm,
+          {
+            _formId: oldForm.formId,
+            _controls: controls,
+            _flattenedControls: Object.values(controls),
+          }
+        );
+        return obj;
+      });
     }
-  ) as FormControl<any, T>;
+  };
 }
@@ -0,0 +1,48 @@
+import {
+  FormControlNonArrayPrimitiveMap,
+  FormControlPrimitiveMap,
+  FormTemplate,
+  InferFormData,
+} from "../../types/form.types";
+import { Store } from "../../state/store";
+import { Form } from "../form";
+import type { FormOptions } from "../form";
+
+/**
+ * A store whose snapshots are the versions of a form
+ * @template T - The type of the data structure the form manages
+ */
+export type FormStore<T> = Store<Form<T>>;
+
+/**
+ * Functional helper to create a form inside an external store. Every update of the form
+ * publishes a new snapshot, so the store can be shared by components (see
+ * `useFormStore`) or observed outside React.
+ *
+ * @template T - The type of the data structure the form manages
+ * @param props - Control configuration map, as for `formGroup`
+ * @param options - Optional form options
+ * @returns A new store holding the form
+ *
+ * @example
+ * ```typescript
+ * export const checkoutStore = formStore({
+ *   email: ['', [Validators.required]],
+ * });
+ * checkoutStore.subscribe(() => console.log(checkoutStore.getSnapshot().build()));
+ * ```
+ */
+export function formStore<T = never>(
+  props: NoInfer<FormControlPrimitiveMap<T> | FormControlNonArrayPrimitiveMap<T>>,
+  options?: FormOptions<T>,
+): FormStore<T>;
+export function formStore<C extends FormTemplate>(
+  template: C,
+  options?: FormOptions<NoInfer<InferFormData<C>>>,
+): FormStore<InferFormData<C>>;
+export function formStore<T>(
+  props: FormControlPrimitiveMap<T> | FormControlNonArrayPrimitiveMap<T>,
+  options?: FormOptions<T>,
+): FormStore<T> {
+  return new Store<Form<T>>((publish) => new Form<T>(props, publish, undefined, options));
+}
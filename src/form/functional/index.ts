@@ -17,3 +17,6 @@
 
 export { formGroup } from "./form";
 export { formControl } from "./formControl";
+export { formArray } from "./formArray";
+export { formStore } from "./formStore";
+export type { FormStore } from "./formStore";
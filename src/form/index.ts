@@ -6,8 +6,9 @@
  * This module exports:
  * - FormControl: Individual form field with validation and state management
  * - Form: Group of controls for complex form structures
+ * - FormArray: Control holding an array of forms, with push/insert/removeAt/move/swap/clear/replace
  * - Validators: Common validation functions
- * - Functional helpers: formGroup, formControl for functional programming style
+ * - Functional helpers: formGroup, formControl, formArray for functional programming style
  * 
  * @example
  * ```typescript
@@ -28,3 +29,4 @@
 export * from './formcontrol'
 export * from './form'
 export * from './validators'
+export * from './messages'
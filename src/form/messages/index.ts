@@ -0,0 +1,63 @@
+import { MessageCatalog } from "../../types/validator.types";
+import {
+  getGlobalLocale,
+  registerGlobalCatalog,
+  setGlobalLocale,
+  subscribeToMessages,
+} from "../util/message.util";
+
+/**
+ * Namespace managing the global message catalogs used to localize validation messages.
+ *
+ * Messages are looked up by error code (see `AdvancedValidatorReturn.code`) in the
+ * catalogs of the current locale. Catalogs registered on a form (`FormOptions.messages`,
+ * `form.registerMessages`) take precedence over global ones; when no catalog has an
+ * entry, the validator's own message is used.
+ *
+ * @example
+ * ```typescript
+ * Messages.register('de', {
+ *   required: 'Dieses Feld ist erforderlich.',
+ *   minLength: 'Mindestens {required} Zeichen.',
+ * });
+ * Messages.setLocale('de');
+ * ```
+ */
+export namespace Messages {
+  /**
+   * Registers (or extends) the global catalog of a locale
+   *
+   * @param locale - A BCP 47 locale tag, e.g. `'de'` or `'de-AT'`
+   * @param catalog - Messages keyed by error code
+   */
+  export function register(locale: string, catalog: MessageCatalog): void {
+    registerGlobalCatalog(locale, catalog);
+  }
+
+  /**
+   * Sets the global locale. Messages of every control are re-rendered the next time
+   * they are read; validators are not re-run.
+   *
+   * @param locale - A BCP 47 locale tag; `'de-AT'` falls back to `'de'` catalogs
+   */
+  export function setLocale(locale: string): void {
+    setGlobalLocale(locale);
+  }
+
+  /**
+   * Gets the global locale (defaults to `'en'`)
+   */
+  export function getLocale(): string {
+    return getGlobalLocale();
+  }
+
+  /**
+   * Subscribes to global locale and catalog changes. `useForm` uses this to re-render.
+   *
+   * @param listener - Called after every change
+   * @returns A function that removes the listener
+   */
+  export function subscribe(listener: () => void): () => void {
+    return subscribeToMessages(listener);
+  }
+}
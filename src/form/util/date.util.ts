@@ -0,0 +1,131 @@
+import { DateValidatorOptions } from "../../types/validator.types";
+
+/**
+ * Matches date-only ISO strings (`YYYY-MM-DD`), which are calendar days without a time zone
+ * @internal
+ */
+const DATE_ONLY_REGEXP = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Intl formatters are expensive to create, so they are cached per time zone
+ * @internal
+ */
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Parses a Date or an ISO string into a valid Date.
+ * @returns The Date, or undefined when the value is not a valid date
+ * @internal
+ */
+export function parseDateValue(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    if (DATE_ONLY_REGEXP.test(value)) {
+      return dayKeyOf(value) === undefined ? undefined : new Date(`${value}T00:00:00.000Z`);
+    }
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the calendar day (`YYYY-MM-DD`) of a value in the given time zone.
+ * Date-only strings are already calendar days and are returned unchanged.
+ * @param value - A Date or an ISO string
+ * @param timeZone - An IANA time zone; defaults to the runtime's time zone
+ * @internal
+ */
+export function dayKeyOf(value: unknown, timeZone?: string): string | undefined {
+  if (typeof value === "string") {
+    const match = DATE_ONLY_REGEXP.exec(value);
+    if (match) {
+      const [, year, month, day] = match.map(Number);
+      const date = new Date(Date.UTC(year, month - 1, day));
+      return date.getUTCFullYear() === year &&
+        date.getUTCMonth() === month - 1 &&
+        date.getUTCDate() === day
+        ? value
+        : undefined;
+    }
+  }
+  const date = parseDateValue(value);
+  if (!date) {
+    return undefined;
+  }
+  const formatterKey = timeZone ?? "";
+  let formatter = dayFormatters.get(formatterKey);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    dayFormatters.set(formatterKey, formatter);
+  }
+  const parts: Record<string, string> = {};
+  for (const { type, value: part } of formatter.formatToParts(date)) {
+    parts[type] = part;
+  }
+  return `${parts.year.padStart(4, "0")}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * Compares two dates at the configured granularity.
+ * @returns A negative number, zero or a positive number; undefined if either value is not a date
+ * @internal
+ */
+export function compareDates(
+  a: unknown,
+  b: unknown,
+  { timeZone, granularity = "day" }: DateValidatorOptions = {}
+): number | undefined {
+  if (granularity === "day") {
+    const dayA = dayKeyOf(a, timeZone);
+    const dayB = dayKeyOf(b, timeZone);
+    if (dayA === undefined || dayB === undefined) {
+      return undefined;
+    }
+    return dayA < dayB ? -1 : dayA > dayB ? 1 : 0;
+  }
+  const dateA = parseDateValue(a);
+  const dateB = parseDateValue(b);
+  if (!dateA || !dateB) {
+    return undefined;
+  }
+  return dateA.getTime() - dateB.getTime();
+}
+
+/**
+ * Formats a date for messages: the calendar day for day granularity, an ISO timestamp otherwise
+ * @internal
+ */
+export function displayDate(
+  value: unknown,
+  { timeZone, granularity = "day" }: DateValidatorOptions = {}
+): string | undefined {
+  return granularity === "day"
+    ? dayKeyOf(value, timeZone)
+    : parseDateValue(value)?.toISOString();
+}
+
+/**
+ * Returns the day of the week (0 = Sunday) of a calendar day
+ * @internal
+ */
+export function weekdayOf(dayKey: string): number {
+  return new Date(`${dayKey}T00:00:00.000Z`).getUTCDay();
+}
+
+/**
+ * Returns the age in whole years on `todayKey` of someone born on `birthKey`
+ * @internal
+ */
+export function ageOn(birthKey: string, todayKey: string): number {
+  const [birthYear, birthMonthDay] = [Number(birthKey.slice(0, 4)), birthKey.slice(5)];
+  const [todayYear, todayMonthDay] = [Number(todayKey.slice(0, 4)), todayKey.slice(5)];
+  return todayYear - birthYear - (todayMonthDay < birthMonthDay ? 1 : 0);
+}
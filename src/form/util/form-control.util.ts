@@ -5,11 +5,15 @@ import {
   FormControlPrimitiveMap,
 } from "../../types/form.types";
 import { ValidatorFn } from "../../types/validator.types";
+import { FormControlOptions } from "../../types/control.types";
 import { BaseForm } from "../base-form";
 import { Form } from "../form";
+import type { FormOptions } from "../form";
 import { FormControl } from "../formcontrol";
+import type { FormScope } from "./scope.util";
 import { } from "../../util";
 import { formControl } from "../functional/formControl";
+import { formArray } from "../functional/formArray";
 
 /**
  * Creates a FormControlMap from various control configuration formats.
@@ -26,6 +30,7 @@ import { formControl } from "../functional/formControl";
  * - Simple values: Creates FormControl with no validators
  * - [value, validator]: Creates FormControl with single validator
  * - [value, [validators]]: Creates FormControl with multiple validators
+ * - [value, [validators], options]: Creates FormControl with validators and per-control options
  * - Nested Forms: Sets up proper state hooks and parent-child relationships
  * - Arrays of Forms: Sets up array reactivity and state propagation
  *
@@ -48,7 +53,7 @@ export function createFormControls<T>(
   if (typeof form !== "object" || form === null) {
     throw new Error("Form must be a non-null object");
   }
-  const controls = {} as FormControlMap<T>;
+  const controls = {} as { [K in keyof T]: FormControl<any, T> };
 
   for (const key in form) {
     const control = form[key];
@@ -56,14 +61,16 @@ export function createFormControls<T>(
       Array.isArray(control) &&
       control.length > 0 &&
       (control.length === 1 ||
-        (control.length === 2 &&
+        ((control.length === 2 ||
+          (control.length === 3 && isControlOptions((control as any)[2]))) &&
           (typeof (control as any)[1] === "function" ||
             isValidatorArray<T>((control as any)[1])))) &&
       !control.some((item) => BaseForm.isFormLike(item))
     ) {
-      const [initialValue, validatorsMaybe] = control as [
+      const [initialValue, validatorsMaybe, options] = control as [
         any,
-        Array<ValidatorFn<T>> | ValidatorFn<T> | undefined
+        Array<ValidatorFn<T>> | ValidatorFn<T> | undefined,
+        FormControlOptions | undefined
       ];
       const validators: Array<ValidatorFn<T>> =
         typeof validatorsMaybe === "function"
@@ -75,7 +82,11 @@ export function createFormControls<T>(
         "and validators:",
         validators
       );
-      controls[key] = formControl(key, initialValue, validators, setState);
+      if (isFormArrayValue(initialValue) || options?.itemForm) {
+        controls[key] = formArray<T>(key, initialValue, validators, setState, options);
+      } else {
+        controls[key] = formControl(key, initialValue, validators, setState, options);
+      }
       if (
         Array.isArray(initialValue) &&
         initialValue.length > 0 &&
@@ -92,7 +103,7 @@ export function createFormControls<T>(
     ) {
       // handle array of forms
       const formsArray = control as Array<Form<any>>;
-      controls[key] = formControl<T>(key, control as any, [], setState);
+      controls[key] = formArray<T>(key, formsArray, [], setState);
       assignHooklessFormArray(formsArray, {
         current: controls[key] as FormControl<any, any>,
       });
@@ -102,7 +113,6 @@ export function createFormControls<T>(
     } else if (BaseForm.isFormLike(control)) {
       // handle nested forms
       if (Form.isForm(control) && Form.needsHook(control)) {
-        const hasExplicitReadOnly = (control as any).__explicitReadOnly === true;
         const primitiveControls = (control as any).__primitiveControls as
           | FormControlPrimitiveMap<any>
           | FormControlNonArrayPrimitiveMap<any>;
@@ -114,7 +124,7 @@ export function createFormControls<T>(
               primitiveControls,
               undefined,
               controls[key] as FormControl<any, any>,
-              hasExplicitReadOnly ? { readOnly: control.readonly } : undefined
+              recreatedFormOptions(control)
             ),
           [],
           setState
@@ -134,14 +144,15 @@ export function createFormControls<T>(
               typeof oldState === "function"
                 ? oldState(oldFormCached)
                 : oldState;
-            (controls[key] as FormControl<any, any>).value = value;
+            (controls[key] as FormControl<any, any>).updateNested(value, value);
           },
           controls[key] as FormControl<any, any>,
-          hasExplicitReadOnly ? { readOnly: control.readonly } : undefined
+          recreatedFormOptions(control)
         );
         Object.assign(subNewForm, {
           _readonly: controls[key].readonly,
           _disabled: controls[key].disabled,
+          ...changeSubscriptions(control),
         });
         (controls[key] as FormControl<any, any>).value = subNewForm;
       } else {
@@ -152,12 +163,39 @@ export function createFormControls<T>(
       controls[key] = formControl(key, initialValue, [], setState);
     }
   }
-  return controls;
+  return controls as FormControlMap<T>;
 }
 
 // Re-export from functional for backwards compatibility
 export { formControl as createFormControl } from "../functional/formControl";
 
+/**
+ * Derives the options used when a hookless form is recreated with a state hook.
+ * Keeps an explicitly provided readOnly and carries form-level configuration
+ * (such as group validators, locale, message catalogs and updateOn) over to the new instance.
+ *
+ * @param form - The hookless form being recreated
+ * @returns The options for the new Form, or undefined if there is nothing to carry
+ *
+ * @internal
+ */
+export function recreatedFormOptions(form: Form<any>): FormOptions<any> | undefined {
+  const hasExplicitReadOnly = (form as any).__explicitReadOnly === true;
+  const options: FormOptions<any> = (form as any).__options ?? {};
+  const scope: FormScope | undefined = (form as any)._formScope?.current;
+  const recreated: FormOptions<any> = {
+    readOnly: hasExplicitReadOnly ? form.readonly : undefined,
+    validators: options.validators,
+    locale: scope?.locale,
+    messages:
+      scope && Object.keys(scope.catalogs).length > 0 ? scope.catalogs : undefined,
+    updateOn: scope?.updateOn,
+  };
+  return Object.values(recreated).some((value) => value !== undefined)
+    ? recreated
+    : undefined;
+}
+
 /**
  * A reference object containing a current value
  * @template T - The type of the referenced value
@@ -230,6 +268,7 @@ export function assignHooklessFormArray<T>(
     ),
     {
       stateless: true,
+      markAsDirty: false,
     }
   )
 }
@@ -248,6 +287,7 @@ export function assignHooklessForm<T>(
     hooklessFormLogic<T>(formInstance, controlFactory as RefOrFactory<FormControl<Form<T>[], any>>),
     {
       stateless: true,
+      markAsDirty: false,
     }
   )
 }
@@ -255,7 +295,7 @@ export function assignHooklessForm<T>(
 function hooklessFormLogic<T>(
   formInstance: Form<T>,
   controlFactory: RefOrFactory<FormControl<Form<T>[], any>>
-) {
+): Form<T> {
 
 
   const rControl = resolveRefOrFactory(controlFactory);
@@ -289,7 +329,7 @@ function hooklessFormLogic<T>(
     } else {
       nextArray[index] = value; // preserve instance; only replace changed slot
     }
-    control.patchValue(nextArray);
+    control.updateNested(nextArray, value);
   };
 
   const control =
@@ -308,7 +348,7 @@ function hooklessFormLogic<T>(
       (formInstance as any).__primitiveControls,
       setState,
       rControl as FormControl<any, any>,
-      hasExplicitReadOnly ? { readOnly: (formInstance as Form<any>).readonly } : undefined
+      recreatedFormOptions(formInstance)
     );
 
     // Apply desired readonly/disabled without propagation
@@ -317,6 +357,7 @@ function hooklessFormLogic<T>(
     Object.assign(newForm, {
       _formId: formInstance.formId,
       _disabled: control.disabled,
+      ...changeSubscriptions(formInstance),
     });
 
     for (const key in formInstance.controls) {
@@ -326,6 +367,7 @@ function hooklessFormLogic<T>(
       Object.assign(newForm.controls?.[key], {
         _value: (formInstance?.controls?.[key] as any)?._value,
         _disabled: control.disabled,
+        ...changeSubscriptions(formInstance.controls[key]),
       });
 
       // Recursively assign hooks to nested arrays of forms
@@ -338,7 +380,7 @@ function hooklessFormLogic<T>(
       }
     }
 
-    return newForm;
+    return newForm as Form<T>;
   } else {
     const hasExplicitReadOnly = (formInstance as any).__explicitReadOnly === true;
     const desiredReadOnly = hasExplicitReadOnly
@@ -372,6 +414,26 @@ function hooklessFormLogic<T>(
   }
 }
 
+/**
+ * Gets the change subscriptions of a form or control, carried over to the form or
+ * control recreating it so listeners subscribed before it was nested keep receiving events
+ * @internal
+ */
+function changeSubscriptions(source: BaseForm<any>) {
+  return { valueChanges: source.valueChanges, statusChanges: source.statusChanges };
+}
+
+/**
+ * Checks whether an initial value belongs in a FormArray. Empty arrays only do when
+ * their control names an `itemForm`.
+ * @param value - Initial value of a control
+ * @returns True if the value contains forms
+ * @internal
+ */
+function isFormArrayValue(value: unknown): value is Array<Form<any>> {
+  return Array.isArray(value) && value.some((item) => BaseForm.isFormLike(item));
+}
+
 /**
  * Type guard to check if a value is an array of validator functions
  * @template T - The type being validated
@@ -389,3 +451,20 @@ function hooklessFormLogic<T>(
 export function isValidatorArray<T>(arr: any): arr is Array<ValidatorFn<T>> {
   return Array.isArray(arr) && arr.every((item) => typeof item === "function");
 }
+
+/**
+ * Type guard to check if a value is a per-control options object (third tuple element)
+ * @param obj - Value to check
+ * @returns True if the value is a plain options object
+ *
+ * @internal
+ */
+export function isControlOptions(obj: any): obj is FormControlOptions {
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    !Array.isArray(obj) &&
+    !BaseForm.isFormLike(obj) &&
+    Object.getPrototypeOf(obj) === Object.prototype
+  );
+}
@@ -0,0 +1,274 @@
+import {
+  MessageCatalog,
+  MessageCatalogEntry,
+  ValidationResult,
+  VALUE_SYNTAX,
+} from "../../types/validator.types";
+import type { Ref } from "./form-control.util";
+import { FormScope, resolveScoped } from "./scope.util";
+import { errorCodeOf } from "./validation.util";
+
+/**
+ * Values available to a message template
+ * @internal
+ */
+export type MessageTemplateContext = {
+  /** The value that was validated */
+  value?: unknown;
+  /** The key of the control that was validated */
+  key?: PropertyKey;
+  /** Validator parameters, e.g. `{ required: 3, actual: 1 }` */
+  params?: Record<string, unknown>;
+};
+
+/**
+ * Matches the value syntax (`#!#`) and `{name}` placeholders in a single pass,
+ * so substituted values are never interpolated again.
+ * @internal
+ */
+const PLACEHOLDER_REGEXP = new RegExp(
+  `${VALUE_SYNTAX.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}|\\{\\s*([A-Za-z_$][\\w$]*)\\s*\\}`,
+  "g"
+);
+
+/**
+ * Formats a single value for display inside a message.
+ * @internal
+ */
+export function formatMessageValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "" : value.toISOString();
+  }
+  if (typeof File !== "undefined" && value instanceof File) {
+    return value.name;
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatMessageValue).join(", ");
+  }
+  if (typeof value === "object") {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+/**
+ * Interpolates a validation message template.
+ *
+ * Supported placeholders:
+ * - `#!#` ({@link VALUE_SYNTAX}) and `{value}`: the validated value
+ * - `{key}`: the control key
+ * - `{<param>}`: any validator parameter, e.g. `{required}` for a length check
+ *
+ * Unknown placeholders are left untouched.
+ *
+ * @param template - The message template
+ * @param context - Values used for substitution
+ * @returns The interpolated message, or undefined when there is no template
+ *
+ * @example
+ * ```typescript
+ * interpolateMessage('{key} must be at least {required} characters (got "#!#").', {
+ *   key: 'name',
+ *   value: 'Jo',
+ *   params: { required: 3 },
+ * });
+ * // 'name must be at least 3 characters (got "Jo").'
+ * ```
+ */
+export function interpolateMessage(
+  template: string | undefined,
+  { value, key, params }: MessageTemplateContext
+): string | undefined {
+  if (typeof template !== "string") {
+    return template;
+  }
+  const formattedValue = formatMessageValue(value);
+  return template.replace(
+    PLACEHOLDER_REGEXP,
+    (match, name: string | undefined) => {
+      if (name === undefined) {
+        // VALUE_SYNTAX
+        return formattedValue;
+      }
+      if (params && name in params) {
+        return formatMessageValue(params[name]);
+      }
+      if (name === "value") {
+        return formattedValue;
+      }
+      if (name === "key") {
+        return key === undefined ? "" : String(key);
+      }
+      return match;
+    }
+  );
+}
+
+/**
+ * The global message registry backing the `Messages` namespace
+ * @internal
+ */
+const registry = {
+  locale: "en",
+  catalogs: {} as Record<string, MessageCatalog>,
+  /** Bumped whenever a catalog or locale changes so rendered messages can be refreshed */
+  version: 0,
+  listeners: new Set<() => void>(),
+};
+
+/**
+ * Merges `catalog` into the catalog registered for `locale`
+ * @internal
+ */
+export function mergeCatalog(
+  catalogs: Record<string, MessageCatalog>,
+  locale: string,
+  catalog: MessageCatalog
+): void {
+  catalogs[locale] = { ...catalogs[locale], ...catalog };
+}
+
+/**
+ * Marks every rendered message as stale
+ * @internal
+ */
+export function touchMessages(): void {
+  registry.version++;
+}
+
+/**
+ * Registers a global catalog and notifies subscribers
+ * @internal
+ */
+export function registerGlobalCatalog(locale: string, catalog: MessageCatalog): void {
+  mergeCatalog(registry.catalogs, locale, catalog);
+  notifyMessageListeners();
+}
+
+/**
+ * Sets the global locale and notifies subscribers
+ * @internal
+ */
+export function setGlobalLocale(locale: string): void {
+  if (registry.locale === locale) {
+    return;
+  }
+  registry.locale = locale;
+  notifyMessageListeners();
+}
+
+/**
+ * @internal
+ */
+export function getGlobalLocale(): string {
+  return registry.locale;
+}
+
+/**
+ * Subscribes to global locale and catalog changes
+ * @returns An unsubscribe function
+ * @internal
+ */
+export function subscribeToMessages(listener: () => void): () => void {
+  registry.listeners.add(listener);
+  return () => {
+    registry.listeners.delete(listener);
+  };
+}
+
+/**
+ * @internal
+ */
+function notifyMessageListeners(): void {
+  touchMessages();
+  registry.listeners.forEach((listener) => listener());
+}
+
+/**
+ * Resolves the effective locale of a scope (its own, an ancestor's or the global one)
+ * @internal
+ */
+export function resolveLocale(scope?: Ref<FormScope>): string {
+  return resolveScoped(scope, "locale") ?? registry.locale;
+}
+
+/**
+ * Identifies the locale and catalog state messages were rendered with.
+ * Rendered messages are reused while this key stays the same.
+ * @internal
+ */
+export function messagesKey(scope?: Ref<FormScope>): string {
+  return `${resolveLocale(scope)}#${registry.version}`;
+}
+
+/**
+ * Finds the catalog entry for `code`, trying the exact locale before its base language
+ * (`de-AT`, then `de`) and the scope's catalogs before the global ones.
+ * @internal
+ */
+function findCatalogEntry(
+  code: string,
+  scope?: Ref<FormScope>
+): MessageCatalogEntry | undefined {
+  const locale = resolveLocale(scope);
+  const candidates = [locale];
+  const base = locale.split("-")[0];
+  if (base && base !== locale) {
+    candidates.push(base);
+  }
+  for (const candidate of candidates) {
+    for (let current = scope; current; current = current.current.parent) {
+      const entry = ownCatalogEntry(current.current.catalogs[candidate], code);
+      if (entry !== undefined) {
+        return entry;
+      }
+    }
+    const entry = ownCatalogEntry(registry.catalogs[candidate], code);
+    if (entry !== undefined) {
+      return entry;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * @internal
+ */
+function ownCatalogEntry(
+  catalog: MessageCatalog | undefined,
+  code: string
+): MessageCatalogEntry | undefined {
+  return catalog && Object.prototype.hasOwnProperty.call(catalog, code)
+    ? catalog[code]
+    : undefined;
+}
+
+/**
+ * Renders the message of a validation result: the catalog entry for its error code
+ * in the current locale, falling back to the validator's own message.
+ * @internal
+ */
+export function renderValidationMessage<T>(
+  entry: ValidationResult<T>,
+  context: MessageTemplateContext & { scope?: Ref<FormScope> }
+): string | undefined {
+  const { scope, ...templateContext } = context;
+  const params = entry.result.params;
+  const catalogEntry = entry.result.valid
+    ? undefined
+    : findCatalogEntry(errorCodeOf(entry), scope);
+  if (typeof catalogEntry === "function") {
+    return catalogEntry({ ...templateContext, params });
+  }
+  return interpolateMessage(catalogEntry ?? entry.result.message, {
+    ...templateContext,
+    params,
+  });
+}
@@ -0,0 +1,125 @@
+import { Form } from "../form";
+import { FormControl } from "../formcontrol";
+import type { Ref } from "./form-control.util";
+import type { FormScope } from "./scope.util";
+
+/**
+ * Splits a control path into its segments. Dots and brackets are both supported:
+ * `'items[0].name'` and `'items.0.name'` yield `['items', '0', 'name']`.
+ * @internal
+ */
+export function parsePath(path: string): string[] {
+  return path
+    .replace(/\[(\w+)\]/g, ".$1")
+    .split(".")
+    .filter((segment) => segment !== "");
+}
+
+/**
+ * Walks `segments` from a form through nested forms, arrays and plain object values.
+ * @returns The raw value at the path (a nested Form stays a Form), or `found: false`
+ * @internal
+ */
+export function resolvePath(
+  form: Form<any>,
+  segments: string[]
+): { found: boolean; value?: unknown } {
+  let current: unknown = form;
+  for (const segment of segments) {
+    if (Form.isForm(current)) {
+      const control: unknown = (current.controls as Record<string, unknown>)[segment];
+      if (!FormControl.isFormControl(control)) {
+        return { found: false };
+      }
+      current = control.value;
+    } else if (Array.isArray(current)) {
+      const index = Number(segment);
+      if (!Number.isInteger(index) || index < 0 || index >= current.length) {
+        return { found: false };
+      }
+      const item = current[index];
+      current = FormControl.isFormControl(item) ? item.value : item;
+    } else if (current !== null && typeof current === "object" && segment in current) {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      return { found: false };
+    }
+  }
+  return { found: true, value: current };
+}
+
+/**
+ * Returns a copy of a plain value (objects and arrays) with the value at `segments`
+ * replaced; the original is left untouched.
+ * @returns The updated copy, or `found: false` when a segment does not exist
+ * @internal
+ */
+export function setIn(
+  target: unknown,
+  segments: string[],
+  next: unknown
+): { found: boolean; value?: unknown } {
+  if (segments.length === 0) {
+    return { found: true, value: next };
+  }
+  const [segment, ...rest] = segments as [string, ...string[]];
+  if (Array.isArray(target)) {
+    const index = Number(segment);
+    if (!Number.isInteger(index) || index < 0 || index >= target.length) {
+      return { found: false };
+    }
+    const updated = setIn(target[index], rest, next);
+    if (!updated.found) {
+      return updated;
+    }
+    const copy = [...target];
+    copy[index] = updated.value;
+    return { found: true, value: copy };
+  }
+  if (target === null || typeof target !== "object" || !(segment in target)) {
+    return { found: false };
+  }
+  const updated = setIn((target as Record<string, unknown>)[segment], rest, next);
+  return updated.found
+    ? { found: true, value: { ...(target as Record<string, unknown>), [segment]: updated.value } }
+    : updated;
+}
+
+/**
+ * Resolves a path relative to the form owning `scope`. When the first segment is not
+ * a control of that form, the closest ancestor form that has it is used instead, so
+ * a control inside a nested form or form-array item can depend on a top-level field.
+ * @returns The raw value at the path, or `found: false` when no form has it
+ * @internal
+ */
+export function resolveScopedPath(
+  scope: Ref<FormScope> | undefined,
+  path: string
+): { found: boolean; value?: unknown } {
+  const segments = parsePath(path);
+  for (let current = scope; current; current = current.current.parent) {
+    const form = current.current.form;
+    if (!form || segments.length === 0 || !(segments[0] in (form.controls ?? {}))) {
+      continue;
+    }
+    return resolvePath(form, segments);
+  }
+  return { found: false };
+}
+
+/**
+ * Converts a raw control value into its built form: nested Forms are built and
+ * arrays of Forms/FormControls are unwrapped.
+ * @internal
+ */
+export function unwrapValue(value: unknown): unknown {
+  if (Form.isForm(value)) {
+    return value.build();
+  }
+  if (Array.isArray(value) && value.some((item) => Form.isForm(item) || FormControl.isFormControl(item))) {
+    return value.map((item) =>
+      Form.isForm(item) ? item.build() : FormControl.isFormControl(item) ? item.value : item
+    );
+  }
+  return value;
+}
@@ -0,0 +1,56 @@
+import { UpdateOn } from "../../types/control.types";
+import { MessageCatalog } from "../../types/validator.types";
+import type { Form } from "../form";
+import type { Ref } from "./form-control.util";
+
+/**
+ * Settings a form shares with its clones, its controls and its nested forms.
+ * Nested forms point to their parent's scope, so any setting they leave undefined
+ * is inherited from the closest ancestor that defines it.
+ * @internal
+ */
+export type FormScope = {
+  /** Locale used to resolve validation messages */
+  locale?: string;
+  /** Message catalogs keyed by locale, then by error code */
+  catalogs: Record<string, MessageCatalog>;
+  /** When controls re-run their validators */
+  updateOn?: UpdateOn;
+  /** Active validation groups, set by `form.validate({ groups })` */
+  groups?: string[];
+  /** The latest version of the form owning this scope; used to resolve control paths */
+  form?: Form<any>;
+  parent?: Ref<FormScope>;
+};
+
+/**
+ * Creates the scope of a form from its options
+ * @internal
+ */
+export function createFormScope({
+  locale,
+  messages,
+  updateOn,
+}: {
+  locale?: string;
+  messages?: Record<string, MessageCatalog>;
+  updateOn?: UpdateOn;
+} = {}): Ref<FormScope> {
+  return { current: { locale, catalogs: { ...messages }, updateOn } };
+}
+
+/**
+ * Resolves a setting from the scope or its closest ancestor defining it
+ * @internal
+ */
+export function resolveScoped<K extends "locale" | "updateOn" | "groups">(
+  scope: Ref<FormScope> | undefined,
+  setting: K
+): FormScope[K] | undefined {
+  for (let current = scope; current; current = current.current.parent) {
+    if (current.current[setting] !== undefined) {
+      return current.current[setting];
+    }
+  }
+  return undefined;
+}
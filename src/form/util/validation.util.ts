@@ -0,0 +1,382 @@
+import {
+  AdvancedValidatorReturn,
+  ServerError,
+  ValidationErrors,
+  ValidationResult,
+  ValidatorContext,
+  ValidatorFn,
+} from "../../types/validator.types";
+import { Ref } from "./form-control.util";
+
+/**
+ * Bookkeeping for async validation runs, shared between all clones of a control/form
+ * so that the latest run always wins regardless of which instance started it.
+ *
+ * @internal
+ */
+export type AsyncValidationState = {
+  /** Incremented on every run; results from older runs are discarded */
+  run: number;
+  /** Pending debounce timer for the current run */
+  timer?: ReturnType<typeof setTimeout>;
+  /** Releases the current debounce wait early (used on cancellation) */
+  releaseTimer?: () => void;
+  /** Aborts the current run's validators */
+  controller?: AbortController;
+  /** Resolves with the final validity once the latest run settles */
+  settled: Promise<boolean>;
+  /** Validators that have been observed to return a promise */
+  asyncFns: WeakSet<Function>;
+};
+
+/**
+ * Options for {@link executeValidators}
+ * @internal
+ */
+export type RunValidatorsOptions<T> = {
+  /** Context forwarded to every validator */
+  context?: Omit<ValidatorContext, "signal">;
+  /** Delay before async validators are invoked */
+  debounceMs?: number;
+  /** Active validation groups; results of other groups do not affect validity */
+  groups?: readonly string[];
+  /** Shared async bookkeeping */
+  ref: Ref<AsyncValidationState>;
+  /** Called with the complete result set when the latest async run settles */
+  onSettled: (results: Array<ValidationResult<T>>, valid: boolean) => void;
+};
+
+/**
+ * Outcome of the synchronous part of a validation run
+ * @internal
+ */
+export type RunValidatorsOutcome<T> = {
+  results: Array<ValidationResult<T>>;
+  valid: boolean;
+  pending: boolean;
+};
+
+/**
+ * Creates a fresh async validation state ref.
+ * @internal
+ */
+export function createAsyncValidationRef(): Ref<AsyncValidationState> {
+  return {
+    current: {
+      run: 0,
+      settled: Promise.resolve(true),
+      asyncFns: new WeakSet(),
+    },
+  };
+}
+
+/**
+ * Checks if a value is a thenable
+ * @internal
+ */
+export function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    !!value &&
+    (typeof value === "object" || typeof value === "function") &&
+    typeof (value as PromiseLike<T>).then === "function"
+  );
+}
+
+/**
+ * Normalizes a boolean or AdvancedValidatorReturn into an AdvancedValidatorReturn.
+ * @internal
+ */
+export function normalizeValidatorResult(
+  result: boolean | AdvancedValidatorReturn
+): AdvancedValidatorReturn {
+  if (typeof result === "boolean") {
+    return { valid: result };
+  }
+  if (result && typeof result === "object" && "valid" in result) {
+    return result;
+  }
+  return { valid: false };
+}
+
+/**
+ * Checks whether a result is a failed warning-level check
+ * @internal
+ */
+export function isWarning<T>({ result }: ValidationResult<T>): boolean {
+  return !result.valid && result.severity === "warning";
+}
+
+/**
+ * Checks whether a result is a failed error-level check
+ * @internal
+ */
+export function isError<T>({ result }: ValidationResult<T>): boolean {
+  return !result.valid && result.severity !== "warning";
+}
+
+/**
+ * Checks whether a result counts for the given validation groups: ungrouped results
+ * always do, grouped ones only if one of their groups is listed
+ * @internal
+ */
+export function inGroups<T>(
+  { result }: ValidationResult<T>,
+  groups: readonly string[] = []
+): boolean {
+  return !result.groups?.length || result.groups.some((group) => groups.includes(group));
+}
+
+/**
+ * Checks whether a set of results is valid for the given validation groups.
+ * Warnings do not count.
+ * @internal
+ */
+export function resultsAreValid<T>(
+  results: Array<ValidationResult<T>>,
+  groups?: readonly string[]
+): boolean {
+  return !results.some((entry) => isError(entry) && inGroups(entry, groups));
+}
+
+/**
+ * Resolves the error code of a validation result.
+ * Falls back to the validator's function name, then to `'invalid'`.
+ * @internal
+ */
+export function errorCodeOf<T>({ fn, result }: ValidationResult<T>): string {
+  return result.code ?? (fn?.name || "invalid");
+}
+
+/**
+ * Validators created by the `Validators` factories and combinators. Closures of one
+ * factory share their source text, so they can only be told apart by identity.
+ */
+const factoryValidators = new WeakSet<Function>();
+
+/**
+ * Registers a validator created by a factory or combinator
+ * @returns The validator
+ * @internal
+ */
+export function factoryValidator<F extends Function>(validator: F): F {
+  factoryValidators.add(validator);
+  return validator;
+}
+
+/**
+ * Checks whether a validator was created by a factory or combinator
+ * @internal
+ */
+export function isFactoryValidator(validator: Function): boolean {
+  return factoryValidators.has(validator);
+}
+
+/**
+ * Reads an own entry of an errors record, ignoring inherited keys such as `toString`.
+ * @internal
+ */
+export function ownEntry<V>(record: Record<string, V>, key: string): V | undefined {
+  return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
+
+/**
+ * Collects the failed error-level results into an errors record keyed by error code.
+ * When several results share a code, the first one wins.
+ * @internal
+ */
+export function toValidationErrors<T>(
+  results: Array<ValidationResult<T>>
+): ValidationErrors {
+  const errors: ValidationErrors = {};
+  for (const entry of results) {
+    if (!isError(entry)) {
+      continue;
+    }
+    const code = errorCodeOf(entry);
+    if (ownEntry(errors, code)) {
+      continue;
+    }
+    errors[code] = {
+      code,
+      message: entry.message ?? entry.result.message,
+      params: entry.result.params,
+    };
+  }
+  return errors;
+}
+
+/**
+ * Stands in as the validator of results created from server errors
+ * @internal
+ */
+const serverValidator: ValidatorFn<any> = function server() {
+  return true;
+};
+
+/**
+ * Converts server errors into failed validation results (code `'server'` by default)
+ * @internal
+ */
+export function toServerResults<T>(errors: ServerError[]): Array<ValidationResult<T>> {
+  return errors.map((error) => ({
+    fn: serverValidator,
+    result: {
+      valid: false,
+      code: "server",
+      ...(typeof error === "string" ? { message: error } : error),
+    },
+  }));
+}
+
+/**
+ * Checks whether a result was created from a server error
+ * @internal
+ */
+export function isServerResult<T>({ fn }: ValidationResult<T>): boolean {
+  return fn === serverValidator;
+}
+
+/**
+ * Cancels any in-flight async validation for the given ref.
+ * @internal
+ */
+export function cancelAsyncValidation(ref: Ref<AsyncValidationState>): void {
+  const state = ref.current;
+  state.run++;
+  if (state.timer !== undefined) {
+    clearTimeout(state.timer);
+    state.timer = undefined;
+  }
+  // let a debounced run observe that it was superseded instead of hanging forever
+  state.releaseTimer?.();
+  state.releaseTimer = undefined;
+  state.controller?.abort();
+  state.controller = undefined;
+}
+
+/**
+ * Runs a set of validators against a value.
+ *
+ * Sync validators are evaluated immediately. Async validators (those declared `async`
+ * or previously observed returning a promise) only run when every sync validator of the
+ * active groups passes, after the optional debounce delay. Each call supersedes the
+ * previous run: its timer is cleared, its AbortSignal is aborted and its results are
+ * discarded (latest-wins).
+ *
+ * @internal
+ */
+export function executeValidators<T>(
+  validators: Array<ValidatorFn<T>>,
+  value: T,
+  { context, debounceMs = 0, groups, ref, onSettled }: RunValidatorsOptions<T>
+): RunValidatorsOutcome<T> {
+  cancelAsyncValidation(ref);
+  const state = ref.current;
+  const run = state.run;
+
+  if (!validators || validators.length === 0) {
+    state.settled = Promise.resolve(true);
+    return { results: [], valid: true, pending: false };
+  }
+
+  const controller =
+    typeof AbortController !== "undefined" ? new AbortController() : undefined;
+  state.controller = controller;
+  const ctx: ValidatorContext = { ...context, signal: controller?.signal };
+
+  const results: Array<ValidationResult<T>> = [];
+  const deferred: Array<ValidatorFn<T>> = [];
+  const started: Array<{ fn: ValidatorFn<T>; promise: PromiseLike<boolean | AdvancedValidatorReturn> }> = [];
+
+  for (const fn of validators) {
+    if (state.asyncFns.has(fn) || fn.constructor?.name === "AsyncFunction") {
+      state.asyncFns.add(fn);
+      deferred.push(fn);
+      continue;
+    }
+    const result = fn(value, ctx);
+    if (isPromiseLike<boolean | AdvancedValidatorReturn>(result)) {
+      // first time we see this validator return a promise; it is debounced from now on
+      state.asyncFns.add(fn);
+      started.push({ fn, promise: result });
+      continue;
+    }
+    results.push({ fn, result: normalizeValidatorResult(result) });
+  }
+
+  // superseded or short-circuited promises are never awaited; keep their rejections quiet
+  started.forEach(({ promise }) => {
+    Promise.resolve(promise).catch((): void => undefined);
+  });
+
+  const syncValid = resultsAreValid(results, groups);
+  const hasAsync = deferred.length > 0 || started.length > 0;
+
+  if (!syncValid || !hasAsync) {
+    // sync failures short-circuit async validators
+    if (hasAsync) {
+      controller?.abort();
+    }
+    state.controller = undefined;
+    state.settled = Promise.resolve(syncValid);
+    return { results, valid: syncValid, pending: false };
+  }
+
+  const settle = async (
+    fn: ValidatorFn<T>,
+    promise: PromiseLike<boolean | AdvancedValidatorReturn>
+  ): Promise<ValidationResult<T>> => {
+    try {
+      return { fn, result: normalizeValidatorResult(await promise) };
+    } catch (error) {
+      return {
+        fn,
+        result: {
+          valid: false,
+          message: error instanceof Error ? error.message : undefined,
+        },
+      };
+    }
+  };
+
+  state.settled = (async () => {
+    if (deferred.length > 0 && debounceMs > 0) {
+      await new Promise<void>((resolve) => {
+        state.releaseTimer = resolve;
+        state.timer = setTimeout(resolve, debounceMs);
+      });
+      if (run === ref.current.run) {
+        ref.current.timer = undefined;
+        ref.current.releaseTimer = undefined;
+      }
+    }
+    if (run !== ref.current.run) {
+      return ref.current.settled;
+    }
+    const asyncResults = await Promise.all([
+      ...started.map(({ fn, promise }) => settle(fn, promise)),
+      ...deferred.map((fn) => {
+        try {
+          return settle(fn, Promise.resolve(fn(value, ctx)));
+        } catch (error) {
+          return settle(fn, Promise.reject(error));
+        }
+      }),
+    ]);
+    if (run !== ref.current.run) {
+      // a newer run superseded this one; defer to its outcome
+      return ref.current.settled;
+    }
+    ref.current.controller = undefined;
+    const allResults = validators
+      .map((fn) =>
+        results.find((r) => r.fn === fn) ?? asyncResults.find((r) => r.fn === fn)
+      )
+      .filter((r): r is ValidationResult<T> => r !== undefined);
+    const valid = resultsAreValid(allResults, groups);
+    onSettled(allResults, valid);
+    return valid;
+  })();
+
+  return { results, valid: false, pending: true };
+}
@@ -1,8 +1,211 @@
-import { AdvancedValidatorReturn } from "../../types/validator.types";
+import {
+  AdvancedValidatorReturn,
+  DateValidatorOptions,
+  ValidationResult,
+  ValidatorContext,
+  ValidatorFn,
+} from "../../types/validator.types";
+import {
+  ageOn,
+  compareDates,
+  dayKeyOf,
+  displayDate,
+  parseDateValue,
+  weekdayOf,
+} from "../util/date.util";
+import {
+  errorCodeOf,
+  factoryValidator,
+  isError,
+  isPromiseLike,
+  normalizeValidatorResult,
+} from "../util/validation.util";
+
+/**
+ * Checks whether a value should be treated as "not provided".
+ * Factory validators skip empty values so they can be combined with `required`.
+ * @internal
+ */
+function isEmptyInputValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === "string" && value.length === 0) ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Returns the measurable length of a value (string characters or array items).
+ * File and Blob values are not measured by length.
+ * @internal
+ */
+function lengthOf(value: unknown): number | undefined {
+  if (typeof value === "string" || Array.isArray(value)) {
+    return value.length;
+  }
+  return undefined;
+}
+
+/**
+ * Converts numbers, numeric strings and Dates into a comparable number.
+ * @internal
+ */
+function toComparable(value: unknown): number | undefined {
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return isNaN(time) ? undefined : time;
+  }
+  if (typeof value === "number") {
+    return isNaN(value) ? undefined : value;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether a value is a File or Blob (File extends Blob).
+ * @internal
+ */
+function isBlob(value: unknown): value is Blob {
+  return typeof Blob !== "undefined" && value instanceof Blob;
+}
+
+/**
+ * Collects the File/Blob items of a single file value or a list of files.
+ * @internal
+ */
+function blobsOf(value: unknown): Blob[] {
+  const items = Array.isArray(value) ? value : [value];
+  return items.filter(isBlob);
+}
+
+/**
+ * Returns the display name of a File, or "File" for a nameless Blob.
+ * @internal
+ */
+function fileNameOf(blob: Blob): string {
+  return typeof File !== "undefined" && blob instanceof File ? blob.name : "File";
+}
+
+/**
+ * Formats a byte count for messages, e.g. 2097152 -> "2 MB".
+ * @internal
+ */
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${Number(size.toFixed(1))} ${units[unit]}`;
+}
+
+/**
+ * Returns today's age in whole years for a birth date, or undefined for non-dates.
+ * @internal
+ */
+function ageOf(value: unknown, timeZone?: string): number | undefined {
+  const birthDay = isEmptyInputValue(value) ? undefined : dayKeyOf(value, timeZone);
+  return birthDay === undefined ? undefined : ageOn(birthDay, dayKeyOf(new Date(), timeZone) as string);
+}
+
+/**
+ * A value that may or may not be wrapped in a promise.
+ * @internal
+ */
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Applies `fn` to a value, or to the resolved value of a promise.
+ * @internal
+ */
+function thenMaybe<A, B>(value: MaybePromise<A>, fn: (value: A) => B): MaybePromise<B> {
+  return isPromiseLike<A>(value) ? Promise.resolve(value).then(fn) : fn(value);
+}
+
+/**
+ * Runs a single validator and normalizes its (possibly async) result.
+ * @internal
+ */
+function evaluate<T>(
+  fn: ValidatorFn<T>,
+  value: T,
+  opts?: ValidatorContext
+): MaybePromise<ValidationResult<T>> {
+  return thenMaybe<boolean | AdvancedValidatorReturn, ValidationResult<T>>(
+    fn(value, opts),
+    (result) => ({ fn, result: normalizeValidatorResult(result) })
+  );
+}
+
+/**
+ * Runs validators one after another, awaiting async ones, until `stop` returns true.
+ * @returns The results of the validators that ran
+ * @internal
+ */
+function runInSequence<T>(
+  validators: ReadonlyArray<ValidatorFn<T>>,
+  value: T,
+  opts: ValidatorContext | undefined,
+  stop: (entry: ValidationResult<T>) => boolean,
+  results: Array<ValidationResult<T>> = []
+): MaybePromise<Array<ValidationResult<T>>> {
+  for (let index = results.length; index < validators.length; index++) {
+    const entry = evaluate(validators[index], value, opts);
+    if (isPromiseLike<ValidationResult<T>>(entry)) {
+      return entry.then((settled) => {
+        results.push(settled);
+        return stop(settled) ? results : runInSequence(validators, value, opts, stop, results);
+      });
+    }
+    results.push(entry);
+    if (stop(entry)) {
+      break;
+    }
+  }
+  return results;
+}
+
+/**
+ * Returns the result of a validator run, filling in the code of a failure
+ * from the validator's name so it survives being wrapped.
+ * @internal
+ */
+function withCode<T>(entry: ValidationResult<T>): AdvancedValidatorReturn {
+  return entry.result.valid ? entry.result : { ...entry.result, code: errorCodeOf(entry) };
+}
+
+/**
+ * Turns the first error-level failure of a set of results into the combined result.
+ * Warnings count as passing.
+ * @internal
+ */
+function firstError<T>(results: Array<ValidationResult<T>>): AdvancedValidatorReturn {
+  const failed = results.find(isError);
+  return failed ? withCode(failed) : { valid: true };
+}
+
+const EMAIL_REGEXP =
+  /^(?=.{1,254}$)(?=.{1,64}@)[a-zA-Z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-zA-Z0-9!#$%&'*+/=?^_`{|}~-]+)*@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
 
 /**
  * Namespace containing common validator functions for form controls.
  * Validators return true when the value is valid, false when invalid.
+ *
+ * Factory validators (`minLength(3)`, `max(10)`, ...) return a validator function
+ * that can be used directly in the `[value, [validators]]` tuple syntax.
+ * With the exception of `required` and `requiredTrue`, validators treat empty values
+ * (null, undefined, empty string, empty array) as valid so they can be combined with `required`.
+ *
+ * Failed results carry a stable `code` (the validator's name, e.g. `'minLength'`) and `params`.
+ * Messages are templates: `{param}` placeholders are filled from the result's `params`,
+ * `{key}` with the control key and `#!#` / `{value}` with the current value.
  */
 export namespace Validators {
   /**
@@ -37,18 +240,21 @@ export namespace Validators {
     if (value === null || value === undefined) {
       return {
         valid: false,
+        code: 'required',
         message: 'This field is required.'
       };
     }
     if (typeof value === 'string' && value.trim() === '') {
       return {
         valid: false,
+        code: 'required',
         message: 'This field is required.'
       }
     }
     if (Array.isArray(value) && value.length === 0) {
       return {
         valid: false,
+        code: 'required',
         message: 'This field is required.'
       }
     }
@@ -63,6 +269,7 @@ export namespace Validators {
       if (!isValid) {
         return {
           valid: false,
+          code: 'required',
           message: 'This field is required.'
         }
       }
@@ -70,6 +277,7 @@ export namespace Validators {
       if (isNaN(value.getTime())) {
         return {
           valid: false,
+          code: 'required',
           message: 'This field is required.'
         }
       }
@@ -78,4 +286,954 @@ export namespace Validators {
       valid: true
     };
   }
+
+  /**
+   * Validator that requires the value to be exactly `true`.
+   * Useful for "accept the terms" checkboxes.
+   *
+   * @example
+   * ```typescript
+   * Validators.requiredTrue(true) // { valid: true }
+   * Validators.requiredTrue(false) // { valid: false, code: 'requiredTrue', message: 'This field must be checked.' }
+   * ```
+   */
+  export function requiredTrue<T>(value: T): AdvancedValidatorReturn {
+    if (value === true) {
+      return {
+        valid: true
+      };
+    }
+    return {
+      valid: false,
+      code: 'requiredTrue',
+      message: 'This field must be checked.'
+    };
+  }
+
+  /**
+   * Creates a validator that requires a minimum length for strings and arrays.
+   *
+   * @param length - The minimum number of characters (strings) or items (arrays)
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * const form = formGroup({ name: ['', [Validators.required, Validators.minLength(3)]] });
+   * // form.controls.name.value = 'Jo' -> message 'Must be at least 3 characters.'
+   * ```
+   */
+  export function minLength(length: number) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const actual = lengthOf(value);
+      if (isEmptyInputValue(value) || actual === undefined || actual >= length) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'minLength',
+        message: Array.isArray(value)
+          ? 'Must contain at least {required} items.'
+          : 'Must be at least {required} characters.',
+        params: { required: length, actual }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that limits the maximum length of strings and arrays.
+   *
+   * @param length - The maximum number of characters (strings) or items (arrays)
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.maxLength(3)('abcd')
+   * // { valid: false, code: 'maxLength', message: 'Must be at most {required} characters.', params: { required: 3, actual: 4 } }
+   * ```
+   */
+  export function maxLength(length: number) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const actual = lengthOf(value);
+      if (isEmptyInputValue(value) || actual === undefined || actual <= length) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'maxLength',
+        message: Array.isArray(value)
+          ? 'Must contain at most {required} items.'
+          : 'Must be at most {required} characters.',
+        params: { required: length, actual }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that requires a value greater than or equal to `limit`.
+   * Works with numbers, numeric strings and Dates.
+   *
+   * @param limit - The minimum allowed value (a number or a Date)
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.min(18)(16) // { valid: false, code: 'min', message: 'Must be at least {min}.', params: { min: 18, actual: 16 } }
+   * Validators.min(new Date('2024-01-01'))(new Date('2025-01-01')) // { valid: true }
+   * ```
+   */
+  export function min(limit: number | Date) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const actual = toComparable(value);
+      const bound = toComparable(limit);
+      if (isEmptyInputValue(value) || actual === undefined || bound === undefined || actual >= bound) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'min',
+        message: 'Must be at least {min}.',
+        params: { min: limit, actual: value }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that requires a value less than or equal to `limit`.
+   * Works with numbers, numeric strings and Dates.
+   *
+   * @param limit - The maximum allowed value (a number or a Date)
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.max(10)(11) // { valid: false, code: 'max', message: 'Must be at most {max}.', params: { max: 10, actual: 11 } }
+   * ```
+   */
+  export function max(limit: number | Date) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const actual = toComparable(value);
+      const bound = toComparable(limit);
+      if (isEmptyInputValue(value) || actual === undefined || bound === undefined || actual <= bound) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'max',
+        message: 'Must be at most {max}.',
+        params: { max: limit, actual: value }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that requires a string to match a regular expression.
+   * String patterns are anchored (`^...$`) the same way Angular's `Validators.pattern` does.
+   *
+   * @param pattern - A RegExp or a pattern string
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.pattern(/^[A-Z]{3}$/)('USD') // { valid: true }
+   * Validators.pattern('[0-9]+')('12a') // { valid: false, code: 'pattern', message: 'Invalid format.', params: { pattern: '^[0-9]+$', actual: '12a' } }
+   * ```
+   */
+  export function pattern(pattern: RegExp | string) {
+    const regex =
+      typeof pattern === "string"
+        ? new RegExp(
+          `${pattern.startsWith("^") ? "" : "^"}${pattern}${pattern.endsWith("$") ? "" : "$"}`
+        )
+        : pattern;
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      if (isEmptyInputValue(value) || (typeof value !== "string" && typeof value !== "number")) {
+        return {
+          valid: true
+        };
+      }
+      // Reset lastIndex so global/sticky regexes behave consistently between runs
+      regex.lastIndex = 0;
+      if (regex.test(String(value))) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'pattern',
+        message: 'Invalid format.',
+        params: { pattern: regex.source, actual: value }
+      };
+    });
+  }
+
+  /**
+   * Validator that requires a string to be a well-formed email address.
+   *
+   * @example
+   * ```typescript
+   * Validators.email('john@example.com') // { valid: true }
+   * Validators.email('john@') // { valid: false, code: 'email', message: 'Must be a valid email address.' }
+   * ```
+   */
+  export function email<T>(value: T): AdvancedValidatorReturn {
+    if (isEmptyInputValue(value) || typeof value !== "string") {
+      return {
+        valid: true
+      };
+    }
+    if (EMAIL_REGEXP.test(value)) {
+      return {
+        valid: true
+      };
+    }
+    return {
+      valid: false,
+      code: 'email',
+      message: 'Must be a valid email address.'
+    };
+  }
+
+  /**
+   * Validator that requires a string to be an absolute http(s) URL.
+   *
+   * @example
+   * ```typescript
+   * Validators.url('https://example.com') // { valid: true }
+   * Validators.url('example') // { valid: false, code: 'url', message: 'Must be a valid URL.' }
+   * ```
+   */
+  export function url<T>(value: T): AdvancedValidatorReturn {
+    if (isEmptyInputValue(value) || typeof value !== "string") {
+      return {
+        valid: true
+      };
+    }
+    try {
+      const parsed = new URL(value);
+      if (parsed.protocol === "http:" || parsed.protocol === "https:") {
+        return {
+          valid: true
+        };
+      }
+    } catch {
+      // fall through to the invalid result
+    }
+    return {
+      valid: false,
+      code: 'url',
+      message: 'Must be a valid URL.'
+    };
+  }
+
+  /**
+   * Validator that requires a number (or numeric string) without a fractional part.
+   *
+   * @example
+   * ```typescript
+   * Validators.integer(3) // { valid: true }
+   * Validators.integer(3.5) // { valid: false, code: 'integer', message: 'Must be a whole number.' }
+   * ```
+   */
+  export function integer<T>(value: T): AdvancedValidatorReturn {
+    if (isEmptyInputValue(value) || value instanceof Date) {
+      return {
+        valid: true
+      };
+    }
+    const actual = toComparable(value);
+    if (actual !== undefined && Number.isInteger(actual)) {
+      return {
+        valid: true
+      };
+    }
+    return {
+      valid: false,
+      code: 'integer',
+      message: 'Must be a whole number.'
+    };
+  }
+
+  /**
+   * Validator that requires a finite number or a numeric string.
+   *
+   * @example
+   * ```typescript
+   * Validators.numeric('12.5') // { valid: true }
+   * Validators.numeric('abc') // { valid: false, code: 'numeric', message: 'Must be a number.' }
+   * ```
+   */
+  export function numeric<T>(value: T): AdvancedValidatorReturn {
+    if (isEmptyInputValue(value) || value instanceof Date) {
+      return {
+        valid: true
+      };
+    }
+    const actual = toComparable(value);
+    if (actual !== undefined && isFinite(actual)) {
+      return {
+        valid: true
+      };
+    }
+    return {
+      valid: false,
+      code: 'numeric',
+      message: 'Must be a number.'
+    };
+  }
+
+  /**
+   * Creates a validator that requires the value to be one of the allowed values.
+   * For array values, every item must be allowed.
+   *
+   * @param allowed - The list of allowed values
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.oneOf(['USD', 'EUR'])('GBP') // rendered message: 'Must be one of: USD, EUR.'
+   * ```
+   */
+  export function oneOf<V>(allowed: ReadonlyArray<V>) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      if (isEmptyInputValue(value)) {
+        return {
+          valid: true
+        };
+      }
+      const values = Array.isArray(value) ? value : [value];
+      if (values.every((item) => allowed.includes(item as unknown as V))) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'oneOf',
+        message: 'Must be one of: {allowed}.',
+        params: { allowed }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that limits the size of a File/Blob, or of every file in a `File[]`.
+   * The first file that is too large is reported.
+   *
+   * @param bytes - The maximum size in bytes
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * const form = formGroup({ avatar: [null as File | null, [Validators.required, Validators.maxFileSize(2 * 1024 * 1024)]] });
+   * // rendered message: 'photo.png must be at most 2 MB.'
+   * ```
+   */
+  export function maxFileSize(bytes: number) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const file = blobsOf(value).find((blob) => blob.size > bytes);
+      if (!file) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'maxFileSize',
+        message: '{fileName} must be at most {maxSizeLabel}.',
+        params: { maxSize: bytes, maxSizeLabel: formatBytes(bytes), actual: file.size, fileName: fileNameOf(file) }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that requires a minimum size for a File/Blob, or for every file in a `File[]`.
+   *
+   * @param bytes - The minimum size in bytes
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.minFileSize(1)(new File([], 'empty.txt'))
+   * // { valid: false, code: 'minFileSize', message: '{fileName} must be at least {minSizeLabel}.', params: { minSize: 1, minSizeLabel: '1 B', actual: 0, fileName: 'empty.txt' } }
+   * ```
+   */
+  export function minFileSize(bytes: number) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const file = blobsOf(value).find((blob) => blob.size < bytes);
+      if (!file) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'minFileSize',
+        message: '{fileName} must be at least {minSizeLabel}.',
+        params: { minSize: bytes, minSizeLabel: formatBytes(bytes), actual: file.size, fileName: fileNameOf(file) }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that restricts the MIME type of a File/Blob, or of every file in a `File[]`.
+   * Wildcards such as `'image/*'` are supported; matching is case-insensitive.
+   *
+   * @param types - The allowed MIME types
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.fileType(['image/*', 'application/pdf'])(new File(['a'], 'a.txt', { type: 'text/plain' }))
+   * // rendered message: 'a.txt must be of type: image/*, application/pdf.'
+   * ```
+   */
+  export function fileType(types: ReadonlyArray<string>) {
+    const allowed = types.map((type) => type.trim().toLowerCase());
+    const matches = (type: string) =>
+      allowed.some((pattern) =>
+        pattern.endsWith('/*')
+          ? type.startsWith(pattern.slice(0, -1))
+          : type === pattern
+      );
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const file = blobsOf(value).find((blob) => !matches(blob.type.toLowerCase()));
+      if (!file) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'fileType',
+        message: '{fileName} must be of type: {allowed}.',
+        params: { allowed: types, actual: file.type, fileName: fileNameOf(file) }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that restricts the extension of a File, or of every file in a `File[]`.
+   * Extensions may be given with or without the leading dot; matching is case-insensitive.
+   * Blobs have no name and are not checked.
+   *
+   * @param extensions - The allowed extensions, e.g. `['.png', 'jpg']`
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.fileExtension(['pdf'])(new File(['a'], 'report.docx'))
+   * // rendered message: 'report.docx must have one of the extensions: .pdf.'
+   * ```
+   */
+  export function fileExtension(extensions: ReadonlyArray<string>) {
+    const allowed = extensions.map((extension) =>
+      `.${extension.trim().replace(/^\./, '')}`.toLowerCase()
+    );
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const file = blobsOf(value).find(
+        (blob) =>
+          typeof File !== 'undefined' &&
+          blob instanceof File &&
+          !allowed.some((extension) => blob.name.toLowerCase().endsWith(extension))
+      );
+      if (!file) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'fileExtension',
+        message: '{fileName} must have one of the extensions: {allowed}.',
+        params: { allowed, fileName: fileNameOf(file) }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that limits the number of files in a `File[]` control.
+   *
+   * @param count - The maximum number of files
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.maxFiles(2)([a, b, c]) // { valid: false, code: 'maxFiles', message: 'Select at most {max} files.', params: { max: 2, actual: 3 } }
+   * ```
+   */
+  export function maxFiles(count: number) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const actual = Array.isArray(value) ? blobsOf(value).length : undefined;
+      if (actual === undefined || actual <= count) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'maxFiles',
+        message: 'Select at most {max} files.',
+        params: { max: count, actual }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that requires a minimum number of files in a `File[]` control.
+   * An empty list is left to `required`.
+   *
+   * @param count - The minimum number of files
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.minFiles(2)([a]) // { valid: false, code: 'minFiles', message: 'Select at least {min} files.', params: { min: 2, actual: 1 } }
+   * ```
+   */
+  export function minFiles(count: number) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const actual = Array.isArray(value) ? blobsOf(value).length : undefined;
+      if (isEmptyInputValue(value) || actual === undefined || actual >= count) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'minFiles',
+        message: 'Select at least {min} files.',
+        params: { min: count, actual }
+      };
+    });
+  }
+
+  /**
+   * Validator that requires a valid Date or an ISO date string.
+   * The other date validators skip values that are not dates, so combine them with this one.
+   *
+   * @example
+   * ```typescript
+   * Validators.date('2024-02-30') // { valid: false, code: 'date', message: 'Must be a valid date.' }
+   * Validators.date(new Date()) // { valid: true }
+   * ```
+   */
+  export function date<T>(value: T): AdvancedValidatorReturn {
+    if (isEmptyInputValue(value) || parseDateValue(value)) {
+      return {
+        valid: true
+      };
+    }
+    return {
+      valid: false,
+      code: 'date',
+      message: 'Must be a valid date.'
+    };
+  }
+
+  /**
+   * Creates a validator that requires a date on or after `limit`.
+   *
+   * @param limit - The earliest allowed date (a Date or an ISO string)
+   * @param options - Time zone and granularity (calendar days by default)
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.minDate('2024-06-01')('2024-05-31')
+   * // { valid: false, code: 'minDate', message: 'Must be on or after {min}.', params: { min: '2024-06-01', actual: '2024-05-31' } }
+   * ```
+   */
+  export function minDate(limit: Date | string, options: DateValidatorOptions = {}) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const comparison = isEmptyInputValue(value) ? undefined : compareDates(value, limit, options);
+      if (comparison === undefined || comparison >= 0) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'minDate',
+        message: 'Must be on or after {min}.',
+        params: { min: displayDate(limit, options), actual: displayDate(value, options) }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that requires a date on or before `limit`.
+   *
+   * @param limit - The latest allowed date (a Date or an ISO string)
+   * @param options - Time zone and granularity (calendar days by default)
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.maxDate(new Date('2024-12-31T23:00:00Z'), { timeZone: 'Europe/Berlin' })('2025-01-01') // { valid: true }
+   * ```
+   */
+  export function maxDate(limit: Date | string, options: DateValidatorOptions = {}) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const comparison = isEmptyInputValue(value) ? undefined : compareDates(value, limit, options);
+      if (comparison === undefined || comparison <= 0) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'maxDate',
+        message: 'Must be on or before {max}.',
+        params: { max: displayDate(limit, options), actual: displayDate(value, options) }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that rejects dates before now (before today with day granularity).
+   *
+   * @param options - Time zone and granularity (calendar days by default)
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * const form = formGroup({ checkIn: ['', [Validators.required, Validators.notInPast({ timeZone: 'Europe/Paris' })]] });
+   * ```
+   */
+  export function notInPast(options: DateValidatorOptions = {}) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const comparison = isEmptyInputValue(value) ? undefined : compareDates(value, new Date(), options);
+      if (comparison === undefined || comparison >= 0) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'notInPast',
+        message: 'Must not be in the past.',
+        params: { actual: displayDate(value, options) }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that rejects dates after now (after today with day granularity).
+   *
+   * @param options - Time zone and granularity (calendar days by default)
+   * @returns A validator function
+   */
+  export function notInFuture(options: DateValidatorOptions = {}) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const comparison = isEmptyInputValue(value) ? undefined : compareDates(value, new Date(), options);
+      if (comparison === undefined || comparison <= 0) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'notInFuture',
+        message: 'Must not be in the future.',
+        params: { actual: displayDate(value, options) }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that requires a business day: not a weekend day and not a holiday.
+   * The calendar day is determined in `options.timeZone`.
+   *
+   * @param options - Time zone, weekend days (0 = Sunday, default `[0, 6]`) and holidays
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.businessDay({ holidays: ['2024-12-25'] })('2024-12-25')
+   * // { valid: false, code: 'businessDay', message: 'Must be a business day.', params: { actual: '2024-12-25', weekday: 3 } }
+   * ```
+   */
+  export function businessDay(
+    options: Pick<DateValidatorOptions, 'timeZone'> & {
+      weekend?: ReadonlyArray<number>;
+      holidays?: ReadonlyArray<Date | string>;
+    } = {}
+  ) {
+    const weekend = options.weekend ?? [0, 6];
+    const holidays = new Set(
+      (options.holidays ?? []).map((holiday) => dayKeyOf(holiday, options.timeZone))
+    );
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const day = isEmptyInputValue(value) ? undefined : dayKeyOf(value, options.timeZone);
+      if (day === undefined) {
+        return {
+          valid: true
+        };
+      }
+      const weekday = weekdayOf(day);
+      if (!weekend.includes(weekday) && !holidays.has(day)) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'businessDay',
+        message: 'Must be a business day.',
+        params: { actual: day, weekday }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that requires a birth date of someone at least `years` old today.
+   *
+   * @param years - The minimum age in whole years
+   * @param options - The time zone used to determine today's date
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.minAge(18)('2015-04-01') // rendered message: 'Must be at least 18 years old.'
+   * ```
+   */
+  export function minAge(years: number, options: Pick<DateValidatorOptions, 'timeZone'> = {}) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const age = ageOf(value, options.timeZone);
+      if (age === undefined || age >= years) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'minAge',
+        message: 'Must be at least {min} years old.',
+        params: { min: years, actual: age }
+      };
+    });
+  }
+
+  /**
+   * Creates a validator that requires a birth date of someone at most `years` old today.
+   *
+   * @param years - The maximum age in whole years
+   * @param options - The time zone used to determine today's date
+   * @returns A validator function
+   */
+  export function maxAge(years: number, options: Pick<DateValidatorOptions, 'timeZone'> = {}) {
+    return factoryValidator(<T>(value: T): AdvancedValidatorReturn => {
+      const age = ageOf(value, options.timeZone);
+      if (age === undefined || age <= years) {
+        return {
+          valid: true
+        };
+      }
+      return {
+        valid: false,
+        code: 'maxAge',
+        message: 'Must be at most {max} years old.',
+        params: { max: years, actual: age }
+      };
+    });
+  }
+
+  /**
+   * Turns a validator into a non-blocking check: its failures are reported with
+   * `severity: 'warning'` in `warnings` and no longer affect `valid`.
+   * Works with sync and async validators.
+   *
+   * @param validator - The validator to downgrade
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * const form = formGroup({
+   *   amount: [0, [Validators.required, Validators.warn(Validators.max(10000))]],
+   * });
+   * form.controls.amount.value = 50000;
+   * form.controls.amount.valid // true
+   * form.controls.amount.warnings[0].message // 'Must be at most 10000.'
+   * ```
+   */
+  export function warn<T>(validator: ValidatorFn<T>): ValidatorFn<T> {
+    const toWarning = (result: boolean | AdvancedValidatorReturn): AdvancedValidatorReturn => ({
+      ...normalizeValidatorResult(result),
+      severity: 'warning'
+    });
+    return factoryValidator((value, opts): AdvancedValidatorReturn | Promise<AdvancedValidatorReturn> => {
+      const result = validator(value, opts);
+      if (isPromiseLike<boolean | AdvancedValidatorReturn>(result)) {
+        return Promise.resolve(result).then(toWarning);
+      }
+      return toWarning(result);
+    });
+  }
+
+  /**
+   * Assigns a validator to one or more validation groups. Grouped validators always run,
+   * but only affect `valid`, `invalids` and `errors` while one of their groups is active
+   * (`form.validate({ groups })`); `validFor(group)` checks a group at any time.
+   * Ungrouped validators always count. Works with sync and async validators.
+   *
+   * @param groups - A group name or a list of names, e.g. `'publish'`
+   * @param validator - The validator to assign
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * const form = formGroup({
+   *   title: ['', [Validators.maxLength(120), Validators.group('publish', Validators.required)]],
+   * });
+   * form.valid // true: drafts may be saved without a title
+   * form.validFor('publish') // false
+   * form.validate({ groups: ['publish'] }) // false, and the title reports `required`
+   * ```
+   */
+  export function group<T>(groups: string | string[], validator: ValidatorFn<T>): ValidatorFn<T> {
+    const names = typeof groups === 'string' ? [groups] : [...groups];
+    return factoryValidator((value, opts): MaybePromise<AdvancedValidatorReturn> =>
+      thenMaybe(evaluate(validator, value, opts), (entry) => ({
+        ...withCode(entry),
+        groups: names
+      })));
+  }
+
+  /**
+   * Combines validators into one that passes only if all of them pass.
+   * All validators run (async ones in parallel); the first error is reported.
+   * Warning-level results of the combined validators count as passing.
+   *
+   * @param validators - The validators to combine
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * const username = Validators.compose(Validators.required, Validators.minLength(3));
+   * form.controls.name.addValidator(username);
+   * ```
+   */
+  export function compose<T>(...validators: Array<ValidatorFn<T>>): ValidatorFn<T> {
+    return factoryValidator((value, opts): MaybePromise<AdvancedValidatorReturn> => {
+      const entries = validators.map((fn) => evaluate(fn, value, opts));
+      if (entries.some((entry) => isPromiseLike(entry))) {
+        return Promise.all(entries).then(firstError);
+      }
+      return firstError(entries as Array<ValidationResult<T>>);
+    });
+  }
+
+  /**
+   * Combines validators into one that runs them in order and stops at the first error,
+   * so later (e.g. expensive async) validators are skipped.
+   *
+   * @param validators - The validators to run in order
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * Validators.bail(Validators.required, Validators.email, isEmailAvailable)
+   * // isEmailAvailable only runs for a well-formed address
+   * ```
+   */
+  export function bail<T>(...validators: Array<ValidatorFn<T>>): ValidatorFn<T> {
+    return factoryValidator((value, opts) =>
+      thenMaybe(runInSequence(validators, value, opts, isError), firstError));
+  }
+
+  /**
+   * Combines validators into one that passes if at least one of them passes.
+   * Validators run in order until one passes. When all fail, the first failure's
+   * message is reported with the code `'anyOf'` and all results in `params.results`.
+   *
+   * @param validators - The alternatives
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * const contact = Validators.anyOf(Validators.email, Validators.pattern(/^\+?[0-9 ]+$/));
+   * ```
+   */
+  export function anyOf<T>(...validators: Array<ValidatorFn<T>>): ValidatorFn<T> {
+    return factoryValidator((value, opts) =>
+      thenMaybe(
+        runInSequence(validators, value, opts, (entry) => !isError(entry)),
+        (results): AdvancedValidatorReturn => {
+          if (validators.length === 0 || results.some((entry) => !isError(entry))) {
+            return {
+              valid: true
+            };
+          }
+          const [first] = results;
+          return {
+            valid: false,
+            code: 'anyOf',
+            message: first.result.message,
+            params: { ...first.result.params, results: results.map(({ result }) => result) }
+          };
+        }
+      ));
+  }
+
+  /**
+   * Negates a validator: passes when it fails and fails when it passes.
+   *
+   * @param validator - The validator to negate
+   * @param options - Code and message reported when the negated validator passes
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * const notAdmin = Validators.not(Validators.oneOf(['admin', 'root']), {
+   *   code: 'reservedName',
+   *   message: '{value} is reserved.',
+   * });
+   * ```
+   */
+  export function not<T>(
+    validator: ValidatorFn<T>,
+    { code = 'not', message = 'Invalid value.' }: { code?: string; message?: string } = {}
+  ): ValidatorFn<T> {
+    return factoryValidator((value, opts) =>
+      thenMaybe(evaluate(validator, value, opts), (entry): AdvancedValidatorReturn =>
+        isError(entry)
+          ? { valid: true }
+          : { valid: false, code, message }
+      ));
+  }
+
+  /**
+   * Runs a validator only when `predicate` returns true; otherwise the value is valid.
+   *
+   * @param predicate - Decides whether the validator applies to the current value
+   * @param validator - The conditional validator
+   * @returns A validator function
+   *
+   * @example
+   * ```typescript
+   * const vatId = Validators.when((value: string) => value.startsWith('DE'), Validators.pattern(/^DE[0-9]{9}$/));
+   * ```
+   */
+  export function when<T>(
+    predicate: (value: T, opts?: ValidatorContext) => boolean,
+    validator: ValidatorFn<T>
+  ): ValidatorFn<T> {
+    return factoryValidator((value, opts) => {
+      if (!predicate(value, opts)) {
+        return {
+          valid: true
+        };
+      }
+      return thenMaybe(evaluate(validator, value, opts), withCode);
+    });
+  }
 }
@@ -1,6 +1,14 @@
 export * from "./util";
 export * from "./types/form.types";
-export type { ValidatorFn } from './types/validator.types';
+export type { ValidatorFn, ValidatorContext, ValidationResult, AdvancedValidatorReturn, ValidationSeverity, ValidationError, ValidationErrors, FormErrors, ValidationReport, ServerError, ServerErrors, MessageCatalog, MessageCatalogEntry, DateValidatorOptions } from './types/validator.types';
+export { VALUE_SYNTAX } from './types/validator.types';
+export type { FormControlOptions, UpdateOn, FormStatus, ValueChangeEvent, StatusChangeEvent } from './types/control.types';
+export type { Subscribable } from './state/subscribable';
+export { Store } from './state/store';
+export type { StoreUpdate } from './state/store';
+export { History } from './state/history';
+export type { HistoryOptions } from './state/history';
+export type { Path, PathValue, FormValue } from './types/path.types';
 export * from "./react/";
 export * from "./form";
 export * from "./form/functional";
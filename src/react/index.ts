@@ -1,3 +1,4 @@
 export * from "./use-form-hook";
 export * from "./context/FormGroup";
 export * from "./context/useFormGroup";
+export * from "./use-form-store";
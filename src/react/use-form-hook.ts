@@ -1,40 +1,97 @@
 import React from "react";
 import { Form } from "../form";
+import { Store } from "../state/store";
+import type { FormStore } from "../form/functional/formStore";
+import { useFormStore } from "./use-form-store";
+import { UpdateOn } from "../types/control.types";
+import type { HistoryOptions } from "../state/history";
 import {
   FormControlNonArrayPrimitiveMap,
   FormControlPrimitiveMap,
+  FormTemplate,
+  InferFormData,
 } from "../types/form.types";
+import { MessageCatalog, ValidatorFn } from "../types/validator.types";
 
 export type UseFormHookOptions<T> = {
   readOnly?: boolean;
   forceReadOnly?: boolean;
+  /**
+   * Form-level (cross-field) validators, see `FormOptions.validators`.
+   * Changing the array identity does not recreate the form.
+   */
+  validators?: Array<ValidatorFn<T>>;
+  /**
+   * Locale of the form's validation messages, see `FormOptions.locale`.
+   * Changing it re-renders messages without recreating the form.
+   */
+  locale?: string;
+  /**
+   * Message catalogs of the form, see `FormOptions.messages`.
+   */
+  messages?: Record<string, MessageCatalog>;
+  /**
+   * When controls re-run their validators, see `FormOptions.updateOn`.
+   */
+  updateOn?: UpdateOn;
+  /**
+   * Undo/redo history of the form, see `FormOptions.history`.
+   */
+  history?: boolean | HistoryOptions;
 };
 
 export type UseFormHook<T> = (
   form: Form<T>,
   options?: UseFormHookOptions<T>,
 ) => {
-  form?: Form<T>;
+  form: Form<T>;
+  /** The store holding the form, to share it with `useFormStore` */
+  store: FormStore<T>;
 };
 
-export const useForm = <T>(
+/**
+ * Creates a form from the template and keeps it in an external store read through
+ * `useSyncExternalStore`, so the form is available on the first render. The form is
+ * recreated when `readOnly`, `forceReadOnly` or a dependency changes. Without a type
+ * argument the form data type is inferred from the template, see `InferFormData`.
+ */
+export function useForm<T = never>(
+  formTemplate: NoInfer<FormControlPrimitiveMap<T> | FormControlNonArrayPrimitiveMap<T>>,
+  options?: UseFormHookOptions<T>,
+  dependencies?: React.DependencyList,
+): ReturnType<UseFormHook<T>>;
+export function useForm<C extends FormTemplate>(
+  formTemplate: C,
+  options?: UseFormHookOptions<NoInfer<InferFormData<C>>>,
+  dependencies?: React.DependencyList,
+): ReturnType<UseFormHook<InferFormData<C>>>;
+export function useForm<T>(
   formTemplate: FormControlPrimitiveMap<T> | FormControlNonArrayPrimitiveMap<T>,
   options?: UseFormHookOptions<T>,
   dependencies: React.DependencyList = [],
-): ReturnType<UseFormHook<T>> => {
+): ReturnType<UseFormHook<T>> {
   const dependency = React.useMemo(
     () => [...(dependencies || [])],
     [...(dependencies || [])],
   );
 
-  const [form, setForm] = React.useState<Form<T>>();
+  const store = React.useMemo(
+    () =>
+      new Store<Form<T>>(
+        (publish) => new Form<T>(formTemplate, publish, undefined, options),
+      ),
+    [options?.readOnly, options?.forceReadOnly, ...dependency],
+  );
+  const form = useFormStore(store);
 
   React.useEffect(() => {
-    const newForm = new Form<T>(formTemplate, setForm, undefined, options);
-    setForm(newForm);
-  }, [setForm, options?.readOnly, options?.forceReadOnly, ...dependency]);
+    if (options?.locale !== undefined && form.locale !== options.locale) {
+      form.locale = options.locale;
+    }
+  }, [form, options?.locale]);
 
   return {
     form,
+    store,
   };
-};
+}
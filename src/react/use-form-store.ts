@@ -0,0 +1,30 @@
+import React from "react";
+import { Form, Messages } from "../form";
+import type { FormStore } from "../form/functional/formStore";
+
+/**
+ * Subscribes to a form store and returns its latest form. Components sharing a store
+ * all render the same form version, e.g. a store created with `formStore` or returned
+ * by `useForm`.
+ *
+ * @example
+ * ```tsx
+ * const checkoutStore = formStore({ email: [''] });
+ *
+ * const EmailField = () => {
+ *   const form = useFormStore(checkoutStore);
+ *   return <input value={form.controls.email.value} onChange={(e) => (form.controls.email.value = e.target.value)} />;
+ * };
+ * ```
+ */
+export function useFormStore<T>(store: FormStore<T>): Form<T> {
+  const form = React.useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+
+  // Re-render when the global locale or catalogs change
+  React.useEffect(
+    () => Messages.subscribe(() => store.publish((prev) => prev.clone())),
+    [store],
+  );
+
+  return form;
+}
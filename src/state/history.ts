@@ -0,0 +1,163 @@
+/**
+ * Options of a `History`
+ */
+export type HistoryOptions = {
+  /**
+   * How many undo steps are kept; older ones are dropped (default: 100)
+   */
+  depth?: number;
+  /**
+   * Changes of the same path within this many milliseconds of the previous one (such as
+   * rapid keystrokes) are merged into one undo step (default: 500)
+   */
+  coalesceMs?: number;
+};
+
+type HistoryEntry<S> = {
+  before: S;
+  after: S;
+  path: string;
+  at: number;
+};
+
+/**
+ * History
+ *
+ * Undo/redo stacks of snapshots. Every recorded change either opens a new undo step or,
+ * if it belongs to the previous one, replaces that step's resulting snapshot. A change
+ * belongs to the previous step if it is recorded in the same task (one user action may
+ * change several values) or changes the same path within `coalesceMs`.
+ */
+export class History<S> {
+  private past: HistoryEntry<S>[] = [];
+  private future: HistoryEntry<S>[] = [];
+  private readonly depth: number;
+  private readonly coalesceMs: number;
+  private inTask = false;
+  private sealed = false;
+  private paused = false;
+
+  /**
+   * Creates a history
+   * @param present - The current snapshot
+   * @param options - Depth and coalescing of the history
+   */
+  public constructor(private snapshot: S, options: HistoryOptions = {}) {
+    this.depth = Math.max(0, options.depth ?? 100);
+    this.coalesceMs = options.coalesceMs ?? 500;
+  }
+
+  /**
+   * The current snapshot
+   */
+  public get present(): S {
+    return this.snapshot;
+  }
+
+  /**
+   * Whether there is a step to undo
+   */
+  public get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  /**
+   * Whether there is an undone step to redo
+   */
+  public get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /**
+   * Records a change, dropping the undone steps. Ignored while paused.
+   * @param path - What changed, used for coalescing
+   * @param snapshot - The snapshot after the change
+   * @param opts.coalesce - If false, the change only joins a step of the same task (default: true)
+   * @param opts.now - The time of the change in milliseconds (default: `Date.now()`)
+   */
+  public record(
+    path: string,
+    snapshot: S,
+    { coalesce = true, now = Date.now() }: { coalesce?: boolean; now?: number } = {}
+  ): void {
+    if (this.paused) {
+      return;
+    }
+    const last = this.past.at(-1);
+    if (
+      last &&
+      !this.sealed &&
+      (this.inTask ||
+        (coalesce && last.path === path && now - last.at <= this.coalesceMs))
+    ) {
+      last.after = snapshot;
+      last.path = path;
+      last.at = now;
+    } else {
+      this.past.push({ before: this.snapshot, after: snapshot, path, at: now });
+      this.past.splice(0, Math.max(0, this.past.length - this.depth));
+    }
+    this.snapshot = snapshot;
+    this.future = [];
+    this.sealed = false;
+    if (!this.inTask) {
+      this.inTask = true;
+      queueMicrotask(() => (this.inTask = false));
+    }
+  }
+
+  /**
+   * Steps back
+   * @returns The snapshot to restore, or undefined if there is nothing to undo
+   */
+  public undo(): S | undefined {
+    const entry = this.past.pop();
+    if (!entry) {
+      return undefined;
+    }
+    this.future.push(entry);
+    return this.moveTo(entry.before);
+  }
+
+  /**
+   * Steps forward again after `undo()`
+   * @returns The snapshot to restore, or undefined if there is nothing to redo
+   */
+  public redo(): S | undefined {
+    const entry = this.future.pop();
+    if (!entry) {
+      return undefined;
+    }
+    this.past.push(entry);
+    return this.moveTo(entry.after);
+  }
+
+  /**
+   * Runs a function without recording the changes it makes, e.g. restoring a snapshot
+   */
+  public pause(fn: () => void): void {
+    const paused = this.paused;
+    this.paused = true;
+    try {
+      fn();
+    } finally {
+      this.paused = paused;
+    }
+  }
+
+  /**
+   * Drops all steps, starting over from a snapshot
+   */
+  public clear(present: S): void {
+    this.past = [];
+    this.future = [];
+    this.snapshot = present;
+  }
+
+  // The next change after undo/redo opens a new step instead of joining the restored one
+  private moveTo(snapshot: S): S {
+    this.snapshot = snapshot;
+    this.sealed = true;
+    return snapshot;
+  }
+}
@@ -24,6 +24,13 @@ export abstract class RequiresHook<T> {
     this._setState(update);
   }
 
+  /**
+   * Drops the setState function, so this instance no longer updates its owner
+   */
+  protected unhook(): void {
+    Object.assign(this, { _setState: undefined });
+  }
+
   protected propagate<O extends RequiresHook<any>>(self: O) {
     // Only propagate if a setState hook is provided
     if (typeof this._setState === 'function') {
@@ -0,0 +1,60 @@
+import { Subscribable } from './subscribable';
+
+/**
+ * A new snapshot, or a function deriving it from the current one (the same shape as a
+ * React `setState` argument)
+ */
+export type StoreUpdate<S> = S | ((previous: S) => S);
+
+/**
+ * Store
+ *
+ * A framework-agnostic external store holding the latest snapshot of a state. Owners
+ * publish new snapshots through `publish`, which has the signature of a React `setState`,
+ * so it can be handed to anything extending `RequiresHook`. `subscribe` and `getSnapshot`
+ * match what React's `useSyncExternalStore` expects.
+ *
+ * Snapshots are never mutated in place by the store: every published update replaces the
+ * snapshot, so comparing snapshots by reference tells whether anything changed.
+ */
+export class Store<S> {
+  private snapshot: S;
+
+  private readonly changes = new Subscribable<void>();
+
+  /**
+   * Creates a store
+   * @param create - Creates the initial snapshot, given the store's `publish` function
+   */
+  public constructor(create: (publish: (update: StoreUpdate<S>) => void) => S) {
+    this.snapshot = create(this.publish);
+  }
+
+  /**
+   * Adds a listener called after every published snapshot
+   * @returns A function removing the listener again
+   */
+  public readonly subscribe = (listener: () => void): (() => void) =>
+    this.changes.subscribe(listener);
+
+  /**
+   * Gets the latest snapshot
+   */
+  public readonly getSnapshot = (): S => this.snapshot;
+
+  /**
+   * Replaces the snapshot and notifies listeners. Updates resolving to the current
+   * snapshot (or to undefined, before the store holds one) are ignored.
+   */
+  public readonly publish = (update: StoreUpdate<S>): void => {
+    const next =
+      typeof update === 'function'
+        ? (update as (previous: S) => S)(this.snapshot)
+        : update;
+    if (next === undefined || Object.is(next, this.snapshot)) {
+      return;
+    }
+    this.snapshot = next;
+    this.changes.emit();
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Subscribable
+ *
+ * A set of listeners notified of events, such as `form.valueChanges`. Lets code outside
+ * React (analytics, autosave, derived fields) react to changes.
+ */
+export class Subscribable<E> {
+  private readonly listeners = new Set<(event: E) => void>();
+
+  /**
+   * Adds a listener
+   * @param listener - Called with every event
+   * @returns A function removing the listener again
+   */
+  public subscribe(listener: (event: E) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether any listener is subscribed
+   */
+  public get observed(): boolean {
+    return this.listeners.size > 0;
+  }
+
+  /**
+   * Calls every listener with an event
+   * @internal
+   */
+  public emit(event: E): void {
+    for (const listener of [...this.listeners]) {
+      listener(event);
+    }
+  }
+}
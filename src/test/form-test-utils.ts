@@ -0,0 +1,66 @@
+/**
+ * Common Test Utilities for Form Tests
+ *
+ * Provides helpers for testing forms the way React drives them, without rendering.
+ */
+
+import type { SetStateAction } from "react";
+import { vi } from "vitest";
+import { Form, FormOptions, Validators } from "../form";
+import { formGroup } from "../form/functional";
+import { FormControlPrimitiveMap } from "../types/form.types";
+
+export type Address = { street: string; zip: string };
+export type Item = { name: string; qty: number };
+
+/**
+ * The order form most tests use: an email, a nested address form and a form array of
+ * items. Tests needing more fields extend it, e.g. `Order & { tags: string[] }`.
+ */
+export type Order = { email: string; address: Form<Address>; items: Array<Form<Item>> };
+
+/**
+ * Creates an order item form; its name is required and quantities above 3 are invalid
+ */
+export function orderItem(name: string, qty = 1): Form<Item> {
+  return formGroup<Item>({ name: [name, [Validators.required]], qty: [qty, [Validators.max(3)]] });
+}
+
+/**
+ * Creates the template of an order for ada@example.com, shipped to Main St 12345, with
+ * a Pen and two Inks. Spread it into a larger template to add fields.
+ * @param overrides - Fields to initialize differently
+ */
+export function orderTemplate(
+  overrides: Partial<FormControlPrimitiveMap<Order>> = {}
+): FormControlPrimitiveMap<Order> {
+  return {
+    email: ["ada@example.com", [Validators.required]],
+    address: formGroup<Address>({ street: "Main St", zip: "12345" }),
+    items: [orderItem("Pen"), orderItem("Ink", 2)],
+    ...overrides,
+  };
+}
+
+/**
+ * Resolves after a number of milliseconds, e.g. to let async validators settle
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Creates a form whose updates go through a `setState` spy, like a form held in React
+ * state. The spy starts cleared, so it only counts updates made by the test.
+ * @returns The form, the spy and `latest()`, the newest version of the form
+ */
+export function statefulForm<T>(template: FormControlPrimitiveMap<T>, options?: FormOptions<T>) {
+  let current: Form<T> | undefined;
+  const setState = vi.fn((update: SetStateAction<Form<T>>) => {
+    current = typeof update === "function" ? update(current!) : update;
+  });
+  const form = new Form<T>(template, setState, undefined, options);
+  current = form;
+  setState.mockClear();
+  return { form, setState, latest: () => current! };
+}
@@ -10,6 +10,7 @@ import { render } from "@testing-library/react";
 import { useForm } from "../react/use-form-hook";
 import { FormGroupProvider } from "../react/context/FormGroup";
 import { Form, Validators } from "../form";
+import { FormControlPrimitiveMap } from "../types/form.types";
 
 // ============================================================================
 // Test Schemas
@@ -45,7 +46,7 @@ export const BaseFormComponent = <T = typeof BASE_SCHEMA,>({
   children,
   formRef,
 }: BaseFormComponentProps<T>) => {
-  const { form } = useForm({ ...schema }, {}, []);
+  const { form } = useForm<T>({ ...schema } as FormControlPrimitiveMap<T>, {}, []);
 
   useEffect(() => {
     if (formRef) {
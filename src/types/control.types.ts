@@ -1,4 +1,83 @@
+import { Form } from "../form";
+
 export type PatchValueProps = {
   stateless?: boolean;
   markAsDirty?: boolean;
+  markAsTouched?: boolean;
 }
+
+/**
+ * When a control re-runs its validators:
+ * - `'change'`: on every value write (default)
+ * - `'blur'`: when the control is blurred (`markAsBlurred()`)
+ * - `'submit'`: only when `validate()` is called on the control or its form
+ */
+export type UpdateOn = "change" | "blur" | "submit";
+
+/**
+ * The item form accepted by a control holding `V`: a form of the array's items
+ * @template V - The control value
+ */
+type ItemFormFor<V> = 0 extends 1 & V
+  ? Form<any>
+  : [V] extends [ReadonlyArray<infer F>]
+    ? F extends Form<any>
+      ? F
+      : never
+    : never;
+
+/**
+ * Per-control configuration, passed as the third element of the tuple syntax:
+ * `[value, [validators], { debounceMs: 300 }]`
+ * @template V - The control value
+ */
+export type FormControlOptions<V = any> = {
+  /**
+   * Delay (in milliseconds) before async validators run after a value change.
+   * Sync validators always run immediately.
+   */
+  debounceMs?: number;
+  /**
+   * When the control re-runs its validators. Defaults to the form's `updateOn`, then `'change'`.
+   */
+  updateOn?: UpdateOn;
+  /**
+   * Paths of other controls this control's validators depend on, e.g. `['password']`.
+   * The control re-validates whenever one of them changes. Paths read through the
+   * validator context's `get` are tracked automatically and need not be listed.
+   */
+  dependsOn?: string[];
+  /**
+   * Declares the control as a form array whose items are shaped like this form, e.g.
+   * `[[], [], { itemForm: formGroup({ name: '' }) }]`. Arrays of forms are form arrays
+   * already; an empty array is a plain value unless it names its item form.
+   */
+  itemForm?: ItemFormFor<V>;
+}
+
+/**
+ * Validation status of a control or form. Forms are `'pending'` while any async
+ * validator below them runs, otherwise `'invalid'` if anything below them failed.
+ */
+export type FormStatus = "valid" | "invalid" | "pending";
+
+/**
+ * Emitted by `valueChanges` when a value is written. `path` leads from the subscribed
+ * control or form to the changed control (`''` for the control itself), e.g.
+ * `'items.0.name'`. Nested forms and form arrays are reported with their built values.
+ */
+export type ValueChangeEvent = {
+  path: string;
+  previousValue: unknown;
+  value: unknown;
+};
+
+/**
+ * Emitted by `statusChanges` when the status of a control or form changes. `path` leads
+ * from the subscribed control or form to the one whose status changed (`''` for itself).
+ */
+export type StatusChangeEvent = {
+  path: string;
+  previousStatus: FormStatus;
+  status: FormStatus;
+};
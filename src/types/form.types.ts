@@ -1,11 +1,13 @@
 import { Form } from "../form";
-import { FormControl } from "../form/formcontrol";
+import { FormArray, FormControl } from "../form/formcontrol";
 import { ValidatorFn } from "./validator.types";
+import { FormControlOptions } from "./control.types";
 
 export interface FormState<T> {
   dirty: boolean;
   touched: boolean;
   valid: boolean;
+  pending: boolean;
   readonly: boolean;
 }
 
@@ -18,24 +20,45 @@ export interface Cloneable {
 }
 
 type TupleControlForNonArray<T> = [T] extends [readonly any[]]
-  ? // Allow tuple config for array values as well: [initialArray, validators?]
+  ? // Allow tuple config for array values as well: [initialArray, validators?, options?]
     | [T | undefined | null]
     | [T | undefined | null, ValidatorFn<any> | ValidatorFn<any>[]]
+    | [NoInfer<T> | undefined | null, ValidatorFn<any> | ValidatorFn<any>[], FormControlOptions<T>]
   :
-      // Allow [value] or [value, validators], where validators can target any
-      // supertype of T, so unions like string | number are accepted.
+      // Allow [value], [value, validators] or [value, validators, options], where validators
+      // can target any supertype of T, so unions like string | number are accepted.
       | [T | undefined | null]
-      | [T | undefined | null, ValidatorFn<any> | ValidatorFn<any>[]];
+      | [T | undefined | null, ValidatorFn<any> | ValidatorFn<any>[]]
+      // The options tuple must not drive inference, otherwise arrays of three Forms
+      // would be inferred as [value, validators, options].
+      | [NoInfer<T> | undefined | null, ValidatorFn<any> | ValidatorFn<any>[], FormControlOptions<T>];
 
 // Accept either the direct value or a tuple initializer for it. For unions like string | number,
 // both tuple branches should be accepted via distributive conditional on T.
 export type FormControlPrimitive<T> = T | TupleControlForNonArray<T>;
 
+/**
+ * Nested forms accepted for a field that is declared with its plain data type: a
+ * `Form` for an object and an array of `Form`s for an array of objects. Declare the
+ * field as `Form<U>` / `Array<Form<U>>` instead to get typed nested controls.
+ */
+type NestedFormControl<T> = [T] extends [Form<any>]
+  ? never
+  : [T] extends [ReadonlyArray<infer I>]
+    ? I extends Form<any>
+      ? never
+      : I extends object
+        ? ReadonlyArray<Form<I>>
+        : never
+    : T extends object
+      ? Form<T>
+      : never;
+
 export type FormControlNonArrayPrimitive<T> =
   | T
   | undefined
   | null
-  | Form<FormControlPrimitive<T>>
+  | NestedFormControl<T>
   | FormControlPrimitive<T>;
 
 export type FormControlNonArrayPrimitiveMap<T> = {
@@ -46,23 +69,102 @@ export type FormControlPrimitiveMap<T> = {
   [K in keyof T]: FormControlPrimitive<T[K]>;
 };
 
-// Extract the actual control value type from the initializer type
-type ExtractControlValue<T> =
-  // Tuple syntax: [value] | [value, validators]
-  T extends readonly [infer V]
+// Arrays of Forms (tuple-like or not) are held as Array<Form<...>>
+type WidenFormArray<V> = V extends ReadonlyArray<infer I>
+  ? [I] extends [never]
     ? V
-    : T extends readonly [infer V, any]
-      ? V
-      // Nested Form stays as Form<...>
-      : T extends Form<infer U>
-        ? Form<U>
-        // Widen tuple-like arrays of Forms to Array<Form<...>>
-        : T extends ReadonlyArray<infer I>
-          ? I extends Form<any>
-            ? Array<I>
-            : T
-        : T;
+    : I extends Form<any>
+      ? Array<I>
+      : V
+  : V;
+
+/**
+ * The value held by the control of a field, extracted from the field type (or from
+ * its inferred initializer): tuple initializers yield their value, nested forms stay
+ * `Form<U>` and arrays of forms become `Array<Form<U>>`.
+ * @template T - A field type of the form's data type
+ */
+export type ExtractControlValue<T> =
+  // Tuple syntax: [value] | [value, validators] | [value, validators, options]
+  T extends readonly [infer V]
+    ? // A lone form in brackets is a one-item form array
+      V extends Form<any>
+      ? Array<V>
+      : V
+    : T extends readonly [infer V, ValidatorFn<any> | ReadonlyArray<ValidatorFn<any>>]
+      ? WidenFormArray<V>
+      : T extends readonly [infer V, ValidatorFn<any> | ReadonlyArray<ValidatorFn<any>>, FormControlOptions]
+        ? WidenFormArray<V>
+        : WidenFormArray<T>;
+
+/**
+ * The control type for a control value: a FormArray for arrays of forms, a FormControl
+ * for everything else (including `any` and arrays inferred from an empty `[]`)
+ * @template V - The control value
+ * @template O - The type the control belongs to (parent form type)
+ */
+export type ControlFor<V, O> = 0 extends 1 & V
+  ? FormControl<V, O>
+  : [V] extends [never[]]
+    ? FormControl<V, O>
+    : [V] extends [Array<Form<infer U>>]
+      ? FormArray<U, O>
+      : FormControl<V, O>;
 
 export type FormControlMap<T> = {
-  [K in keyof T]: FormControl<ExtractControlValue<T[K]>, T>;
+  [K in keyof T]: ControlFor<ExtractControlValue<T[K]>, T>;
+};
+
+// Array literals of a template are inferred as tuples, so initializers can be told apart
+type FormFieldTemplate =
+  | {}
+  | null
+  | undefined
+  | readonly [unknown]
+  | readonly [unknown, ValidatorFn<any> | ValidatorFn<any>[]]
+  | readonly [unknown, ValidatorFn<any> | ValidatorFn<any>[], FormControlOptions];
+
+/**
+ * A form template whose data type is inferred instead of written by hand, see
+ * {@link InferFormData}
+ */
+export type FormTemplate = { [key: string]: FormFieldTemplate };
+
+// Tuples inferred from array literals become plain arrays; items of one type (such as
+// several `formGroup`s of the same shape) collapse into a single item type
+type WidenTuple<V> = V extends readonly [infer First, ...infer Rest]
+  ? [Rest[number]] extends [First]
+    ? Array<First>
+    : Array<V[number]>
+  : V extends ReadonlyArray<infer I>
+    ? Array<I>
+    : V;
+
+// The field type of a single template entry
+type TemplateFieldValue<F> =
+  F extends Form<any>
+    ? F
+    : F extends readonly [infer V]
+      ? // A lone form in brackets is a one-item form array
+        V extends Form<any>
+        ? Array<V>
+        : WidenTuple<V>
+      : F extends readonly [infer V, ValidatorFn<any> | ReadonlyArray<ValidatorFn<any>>]
+        ? WidenTuple<V>
+        : F extends readonly [unknown, ValidatorFn<any> | ReadonlyArray<ValidatorFn<any>>, { itemForm: infer I extends Form<any> }]
+          ? // An array declared with its item form is a form array
+            Array<I>
+          : F extends readonly [infer V, ValidatorFn<any> | ReadonlyArray<ValidatorFn<any>>, FormControlOptions]
+            ? WidenTuple<V>
+            : WidenTuple<F>;
+
+/**
+ * The form data type described by a template: tuple initializers yield their value,
+ * nested `formGroup`s stay `Form<U>` and arrays of forms become `Array<Form<U>>`, e.g.
+ * `{ name: ['', [Validators.required]], pets: [formGroup({ kind: 'Dog' })] }` describes
+ * `{ name: string; pets: Array<Form<{ kind: string }>> }`.
+ * @template C - The template type
+ */
+export type InferFormData<C> = {
+  -readonly [K in keyof C]: TemplateFieldValue<C[K]>;
 };
@@ -0,0 +1,85 @@
+import type { Form } from "../form";
+import type { ExtractControlValue } from "./form.types";
+
+/**
+ * Values that paths never descend into
+ */
+type PathLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | Blob
+  | ((...args: any[]) => any);
+
+/**
+ * Guards the recursion of {@link Path} against deeply nested or recursive types
+ */
+type PathDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+/**
+ * The paths below a value: keys of objects and nested forms, indexes of arrays
+ */
+type SubPath<V, D extends number> = [D] extends [never]
+  ? never
+  : V extends Form<infer U>
+    ? SubPath<U, D>
+    : V extends PathLeaf
+      ? never
+      : V extends ReadonlyArray<infer I>
+        ? `${number}` | `${number}.${SubPath<I, PathDepth[D]>}`
+        : V extends object
+          ? {
+              [K in keyof V & string]: K | `${K}.${SubPath<V[K], PathDepth[D]>}`;
+            }[keyof V & string]
+          : never;
+
+/**
+ * Every dot-separated path into a form's data type, through nested forms, arrays
+ * and plain objects, e.g. `'address' | 'address.street' | 'items.${number}.name'`.
+ * Misspelled paths are compile errors.
+ * @template T - The form data type
+ */
+export type Path<T> = SubPath<T, 8>;
+
+/**
+ * Takes one step into a value: a key of an object or nested form, an index of an array
+ */
+type PathStep<V, K extends string> =
+  V extends Form<infer U>
+    ? PathStep<U, K>
+    : V extends ReadonlyArray<infer I>
+      ? K extends `${number}`
+        ? I
+        : never
+      : K extends keyof V
+        ? V[K]
+        : never;
+
+/**
+ * The type found at a {@link Path} of `T`, as held by its control (nested forms
+ * stay `Form`s)
+ * @template T - The form data type
+ * @template P - A path into `T`
+ */
+export type PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? PathValue<PathStep<T, K>, Rest>
+  : PathStep<T, P>;
+
+/**
+ * The plain value of a control value: nested forms (and arrays of forms) are
+ * replaced by the data they build, so `FormValue<Form<T>>` is what `build()` returns
+ * @template V - A control value type
+ */
+export type FormValue<V> =
+  V extends Form<infer U>
+    ? { [K in keyof U]: FormValue<ExtractControlValue<U[K]>> }
+    : V extends ReadonlyArray<infer I>
+      ? I extends Form<any>
+        ? Array<FormValue<I>>
+        : V
+      : V;
@@ -5,16 +5,161 @@
  */
 export const VALUE_SYNTAX = "#!#";
 
+/**
+ * Severity of a failed validation result: `'error'` blocks validity, `'warning'` is informational
+ */
+export type ValidationSeverity = "error" | "warning";
+
 export type AdvancedValidatorReturn = {
+  /**
+   * The validation message. May contain placeholders that are interpolated before
+   * the message is exposed on `FormControl.invalids`:
+   * - `#!#` ({@link VALUE_SYNTAX}) or `{value}`: the current value
+   * - `{key}`: the control key
+   * - `{<param>}`: an entry of `params`, e.g. `{required}`
+   */
   message?: string;
   valid: boolean;
+  /**
+   * A stable error code identifying the failed rule, e.g. `'minLength'`.
+   * Defaults to the validator function's name (or `'invalid'`) when omitted.
+   */
+  code?: string;
+  /**
+   * How a failed result is treated (default `'error'`). Warnings are exposed through
+   * `warnings` but do not affect `valid`.
+   */
+  severity?: ValidationSeverity;
+  /**
+   * Validation groups the check belongs to, e.g. `['publish']` (see `Validators.group`).
+   * Results without groups always count; grouped results only count toward `valid`,
+   * `invalids`, `errors` and `warnings` while one of their groups is active.
+   */
+  groups?: string[];
+  /**
+   * Validator parameters available to the message template, e.g. `{ required: 3, actual: 1 }`
+   */
+  params?: Record<string, unknown>;
+};
+
+/**
+ * Extra information passed to a validator as its second argument.
+ */
+export type ValidatorContext = {
+  /**
+   * The key of the control being validated (undefined for form-level validators).
+   */
+  key?: PropertyKey;
+  /**
+   * Aborted as soon as a newer validation run supersedes this one.
+   * Async validators can forward it to `fetch` to cancel in-flight requests.
+   */
+  signal?: AbortSignal;
+  /**
+   * Reads the value of another control by path (`'password'`, `'address.country'`,
+   * `'items[0].qty'`), relative to the control's form and falling back to ancestor forms.
+   * Every path read is tracked: when its value changes, the control re-validates.
+   * Nested forms are returned built. Undefined for form-level validators.
+   */
+  get?: (path: string) => unknown;
 };
 
 export type ValidatorFn<T> = (
   value: T,
-  opts?: unknown
+  opts?: ValidatorContext
 ) =>
   | boolean
   | Promise<boolean>
   | AdvancedValidatorReturn
   | Promise<AdvancedValidatorReturn>;
+
+/**
+ * The normalized outcome of running a single validator.
+ */
+export type ValidationResult<T> = {
+  fn: ValidatorFn<T>;
+  result: AdvancedValidatorReturn;
+  /**
+   * The interpolated, ready-to-render message (set on results exposed through `invalids`)
+   */
+  message?: string;
+};
+
+/**
+ * A single failed rule, keyed by its code inside {@link ValidationErrors}
+ */
+export type ValidationError = {
+  code: string;
+  /** The interpolated, ready-to-render message */
+  message?: string;
+  params?: Record<string, unknown>;
+};
+
+/**
+ * Failed rules of a control keyed by error code, e.g.
+ * `{ minLength: { code: 'minLength', params: { required: 3, actual: 1 } } }`
+ */
+export type ValidationErrors = Record<string, ValidationError>;
+
+/**
+ * Aggregated errors of a form keyed by control path, e.g. `'address.street'` or
+ * `'items.0.name'`. The form's own (form-level) errors live under the empty path `''`.
+ */
+export type FormErrors = Record<string, ValidationErrors>;
+
+/**
+ * An error reported by a server: a message, or an error with a code (default `'server'`)
+ */
+export type ServerError =
+  | string
+  | { code?: string; message?: string; params?: Record<string, unknown> };
+
+/**
+ * Server errors keyed by control path, e.g. `{ 'address.zip': 'Unknown ZIP code.' }`.
+ * Bracket paths (`'items[2].quantity'`) are accepted; `''` is the form itself.
+ */
+export type ServerErrors = Record<string, ServerError | ServerError[]>;
+
+/**
+ * Outcome of validating (or checking) some paths of a form
+ */
+export type ValidationReport = {
+  /** True if no path failed and no async validator is pending */
+  valid: boolean;
+  /** True while async validators below the paths are still running */
+  pending: boolean;
+  /**
+   * Paths of the failed controls in dot notation, e.g. `['address.zip', 'items.0.qty']`.
+   * A form failing a form-level validator is listed under its own path (`''` for the root).
+   */
+  failed: string[];
+};
+
+/**
+ * A localized message for an error code: either a template (same placeholders as
+ * `AdvancedValidatorReturn.message`) or a function receiving the value, key and params.
+ */
+export type MessageCatalogEntry =
+  | string
+  | ((context: { value?: unknown; key?: PropertyKey; params?: Record<string, unknown> }) => string);
+
+/**
+ * Messages of a single locale keyed by error code, e.g. `{ required: 'Pflichtfeld.' }`
+ */
+export type MessageCatalog = Record<string, MessageCatalogEntry>;
+
+/**
+ * Options shared by the date validators (`Validators.minDate`, `notInPast`, ...)
+ */
+export type DateValidatorOptions = {
+  /**
+   * IANA time zone used to determine calendar days, e.g. `'Europe/Berlin'`.
+   * Defaults to the runtime's time zone. Date-only strings (`'2024-05-01'`) are
+   * calendar days already and are never shifted.
+   */
+  timeZone?: string;
+  /**
+   * `'day'` (default) compares calendar days, `'millisecond'` compares exact instants
+   */
+  granularity?: "day" | "millisecond";
+};